@@ -0,0 +1,49 @@
+// Provenance recorded at the top of each dump, so the site can link to and
+// load snippets from the exact commit that was extracted.
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+
+const git = (checkoutDir, args) => {
+  try {
+    return execFileSync("git", ["-C", checkoutDir, ...args], {
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch {
+    return undefined;
+  }
+};
+
+// Only the root of a repository says anything about the checkout: a directory
+// nested in some other repository (like the fixtures in this one) would
+// otherwise report that repository's commit and remote
+const isRepositoryRoot = (checkoutDir) => {
+  const toplevel = git(checkoutDir, ["rev-parse", "--show-toplevel"]);
+  return (
+    toplevel !== undefined &&
+    fs.realpathSync(toplevel) === fs.realpathSync(checkoutDir)
+  );
+};
+
+// `owner/name` of the checkout's GitHub remote, if it has one
+const getGitHubRepo = (checkoutDir) =>
+  git(checkoutDir, ["remote", "get-url", "origin"])?.match(
+    /github\.com[:/](.+?)(?:\.git)?$/
+  )?.[1];
+
+export function getDumpMeta(checkoutDir, { defaultRepo, tool, toolVersion }) {
+  const isRoot = isRepositoryRoot(checkoutDir);
+  const commit = isRoot ? git(checkoutDir, ["rev-parse", "HEAD"]) : undefined;
+  if (!commit) {
+    console.warn(
+      `${checkoutDir} is not the root of a git checkout; links will use the default branch`
+    );
+  }
+  return {
+    repo: (isRoot && getGitHubRepo(checkoutDir)) || defaultRepo,
+    commit: commit || null,
+    generatedAt: new Date().toISOString(),
+    tool,
+    toolVersion,
+  };
+}
@@ -0,0 +1,57 @@
+// Regenerates src/data/python_sdk.json from a local driftpy checkout:
+//
+//   npm run extract:python -- ../driftpy [output.json]
+//
+// The parsing itself is done by Python's own `ast` module in
+// extract_python_sdk.py; set PYTHON to use an interpreter other than python3.
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { getDumpMeta } from "./dump-meta.mjs";
+
+const EXTRACTOR = fileURLToPath(
+  new URL("./extract_python_sdk.py", import.meta.url)
+);
+
+export function extractPythonSdk(checkoutDir) {
+  const packageDir = path.join(checkoutDir, "src", "driftpy");
+  if (!fs.existsSync(packageDir)) {
+    throw new Error(`${packageDir} does not exist; pass a driftpy checkout`);
+  }
+
+  const python = process.env.PYTHON || "python3";
+  const output = execFileSync(python, [EXTRACTOR, packageDir], {
+    encoding: "utf-8",
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  const pythonVersion = execFileSync(python, ["--version"], {
+    encoding: "utf-8",
+  }).trim();
+
+  return {
+    meta: getDumpMeta(checkoutDir, {
+      defaultRepo: "drift-labs/driftpy",
+      tool: "extract-python-sdk",
+      toolVersion: pythonVersion.toLowerCase(),
+    }),
+    ...JSON.parse(output),
+  };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [checkoutDir, output = "src/data/python_sdk.json"] =
+    process.argv.slice(2);
+  if (!checkoutDir) {
+    console.error(
+      "Usage: node scripts/extract-python-sdk.mjs <driftpy checkout> [output]"
+    );
+    process.exit(1);
+  }
+
+  const data = extractPythonSdk(path.resolve(checkoutDir));
+  fs.writeFileSync(output, `${JSON.stringify(data, null, 2)}\n`);
+  console.log(
+    `Wrote ${data.classes.length} classes and ${data.functions.length} functions to ${output}`
+  );
+}
@@ -0,0 +1,221 @@
+// Regenerates src/data/typescript_sdk.json from a local protocol-v2 checkout:
+//
+//   npm run extract:ts -- ../protocol-v2 [output.json]
+//
+// Types are printed by the compiler's type checker, so parameters and
+// returns are recorded even when the source leaves them to inference.
+import fs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+import { getDumpMeta } from "./dump-meta.mjs";
+
+// Prefix of every `file` in the dump; the site strips it back off
+const FILE_PREFIX = "protocol-v2/sdk/src";
+
+function listSourceFiles(dir) {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return entry.name === "node_modules" ? [] : listSourceFiles(fullPath);
+      }
+      return /\.tsx?$/.test(entry.name) && !entry.name.endsWith(".d.ts")
+        ? [fullPath]
+        : [];
+    });
+}
+
+function createProgram(sdkDir, files) {
+  const configPath = ts.findConfigFile(path.dirname(sdkDir), ts.sys.fileExists);
+  let options = { target: ts.ScriptTarget.ES2020, allowJs: false };
+  if (configPath) {
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    options = ts.parseJsonConfigFileContent(
+      config,
+      ts.sys,
+      path.dirname(configPath)
+    ).options;
+  }
+  return ts.createProgram(files, { ...options, noEmit: true });
+}
+
+const hasModifier = (node, kind) =>
+  !!ts.getModifiers(node)?.some((modifier) => modifier.kind === kind);
+
+function getLines(node, sourceFile) {
+  return {
+    startLine:
+      sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line +
+      1,
+    endLine: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+  };
+}
+
+function getAccess(member) {
+  if (member.name && ts.isPrivateIdentifier(member.name)) return "private";
+  if (hasModifier(member, ts.SyntaxKind.PrivateKeyword)) return "private";
+  if (hasModifier(member, ts.SyntaxKind.ProtectedKeyword)) return "protected";
+  return "public";
+}
+
+// The declaration's JSDoc without the comment markers, tags included, or ""
+// when it has none (as the Python extractor writes for missing docstrings)
+function getDocstring(node, sourceFile) {
+  const doc = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc).pop();
+  if (!doc) return "";
+  return doc
+    .getText(sourceFile)
+    .replace(/^\/\*\*|\*\/$/g, "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*\* ?/, "").trimEnd())
+    .join("\n")
+    .trim();
+}
+
+function getParameters(node, checker, sourceFile) {
+  return node.parameters.map((parameter) => ({
+    name: parameter.name.getText(sourceFile),
+    type: checker.typeToString(checker.getTypeAtLocation(parameter), parameter),
+  }));
+}
+
+function getReturnType(node, checker) {
+  const signature = checker.getSignatureFromDeclaration(node);
+  return signature
+    ? checker.typeToString(checker.getReturnTypeOfSignature(signature), node)
+    : undefined;
+}
+
+const METHOD_KINDS = {
+  [ts.SyntaxKind.Constructor]: "constructor",
+  [ts.SyntaxKind.MethodDeclaration]: "method",
+  [ts.SyntaxKind.GetAccessor]: "get",
+  [ts.SyntaxKind.SetAccessor]: "set",
+};
+
+function extractMethod(member, checker, sourceFile) {
+  const kind = METHOD_KINDS[member.kind];
+  // Overload signatures; the implementation is recorded instead
+  if (!member.body && !hasModifier(member, ts.SyntaxKind.AbstractKeyword)) {
+    return undefined;
+  }
+
+  const method = {
+    name:
+      kind === "constructor" ? "constructor" : member.name.getText(sourceFile),
+    kind,
+    isStatic: hasModifier(member, ts.SyntaxKind.StaticKeyword),
+    isAsync: hasModifier(member, ts.SyntaxKind.AsyncKeyword),
+    access: getAccess(member),
+    parameters: getParameters(member, checker, sourceFile),
+    docstring: getDocstring(member, sourceFile),
+  };
+  // Constructors and setters have no meaningful return type
+  if (kind === "method" || kind === "get") {
+    method.returns = getReturnType(member, checker);
+  }
+  return { ...method, ...getLines(member, sourceFile) };
+}
+
+function extractClass(node, file, checker, sourceFile) {
+  const cls = {
+    file,
+    name: node.name?.getText(sourceFile) || "default",
+    abstract: hasModifier(node, ts.SyntaxKind.AbstractKeyword),
+    docstring: getDocstring(node, sourceFile),
+  };
+
+  (node.heritageClauses || []).forEach((clause) => {
+    const names = clause.types.map((type) =>
+      type.expression.getText(sourceFile)
+    );
+    if (clause.token === ts.SyntaxKind.ExtendsKeyword) {
+      cls.extends = names[0];
+    } else {
+      cls.implements = names;
+    }
+  });
+
+  cls.methods = node.members
+    .filter((member) => member.kind in METHOD_KINDS)
+    .map((member) => extractMethod(member, checker, sourceFile))
+    .filter(Boolean);
+  return { ...cls, ...getLines(node, sourceFile) };
+}
+
+function extractFunction(node, file, checker, sourceFile) {
+  return {
+    file,
+    name: node.name.getText(sourceFile),
+    isExported: hasModifier(node, ts.SyntaxKind.ExportKeyword),
+    isDefaultExport: hasModifier(node, ts.SyntaxKind.DefaultKeyword),
+    isAsync: hasModifier(node, ts.SyntaxKind.AsyncKeyword),
+    parameters: getParameters(node, checker, sourceFile),
+    returns: getReturnType(node, checker),
+    docstring: getDocstring(node, sourceFile),
+    ...getLines(node, sourceFile),
+  };
+}
+
+export function extractTsSdk(checkoutDir) {
+  const sdkDir = path.join(checkoutDir, "sdk", "src");
+  if (!fs.existsSync(sdkDir)) {
+    throw new Error(`${sdkDir} does not exist; pass a protocol-v2 checkout`);
+  }
+
+  const files = listSourceFiles(sdkDir);
+  const program = createProgram(sdkDir, files);
+  const checker = program.getTypeChecker();
+  const data = {
+    meta: getDumpMeta(checkoutDir, {
+      defaultRepo: "drift-labs/protocol-v2",
+      tool: "extract-ts-sdk",
+      toolVersion: `typescript ${ts.version}`,
+    }),
+    classes: [],
+    functions: [],
+  };
+
+  files.forEach((filePath) => {
+    const sourceFile = program.getSourceFile(filePath);
+    const file = `${FILE_PREFIX}/${path
+      .relative(sdkDir, filePath)
+      .split(path.sep)
+      .join("/")}`;
+
+    sourceFile.statements.forEach((statement) => {
+      if (ts.isClassDeclaration(statement)) {
+        data.classes.push(extractClass(statement, file, checker, sourceFile));
+      } else if (
+        ts.isFunctionDeclaration(statement) &&
+        statement.name &&
+        statement.body
+      ) {
+        data.functions.push(
+          extractFunction(statement, file, checker, sourceFile)
+        );
+      }
+    });
+  });
+
+  return data;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [checkoutDir, output = "src/data/typescript_sdk.json"] =
+    process.argv.slice(2);
+  if (!checkoutDir) {
+    console.error(
+      "Usage: node scripts/extract-ts-sdk.mjs <protocol-v2 checkout> [output]"
+    );
+    process.exit(1);
+  }
+
+  const data = extractTsSdk(path.resolve(checkoutDir));
+  fs.writeFileSync(output, `${JSON.stringify(data, null, 2)}\n`);
+  console.log(
+    `Wrote ${data.classes.length} classes and ${data.functions.length} functions to ${output}`
+  );
+}
@@ -0,0 +1,151 @@
+"""Walks a driftpy source tree with `ast` and prints the python_sdk.json dump.
+
+Usage: python3 scripts/extract_python_sdk.py <driftpy package dir>
+
+Run through `npm run extract:python`, which points this at
+`<checkout>/src/driftpy` and writes the output file.
+"""
+
+import ast
+import json
+import sys
+from pathlib import Path
+
+# Prefix of every `file` in the dump; the site strips it back off
+FILE_PREFIX = "driftpy"
+
+# Missing annotations are recorded as `Any`, like an untyped TS `any`
+UNTYPED = "Any"
+
+
+def is_private(name):
+    # Private classes and functions are left out of the dump
+    return name.startswith("_")
+
+
+def is_special(name):
+    # `__init__`, `__eq__` and the like are protocol hooks, not API
+    return name.startswith("__") and name.endswith("__")
+
+
+def get_access(name):
+    # The usual convention; the site's access rules can override it
+    if name.startswith("__"):
+        return "private"
+    if name.startswith("_"):
+        return "protected"
+    return "public"
+
+
+def get_type(annotation):
+    if annotation is None:
+        return UNTYPED
+    # Forward references are recorded without their quotes
+    if isinstance(annotation, ast.Constant) and isinstance(annotation.value, str):
+        return annotation.value
+    return ast.unparse(annotation)
+
+
+def get_decorator_name(decorator):
+    # `@deprecated("use x")` is recorded as `deprecated`
+    if isinstance(decorator, ast.Call):
+        decorator = decorator.func
+    return ast.unparse(decorator)
+
+
+def get_parameters(node):
+    # *args and **kwargs are left out
+    arguments = node.args.posonlyargs + node.args.args + node.args.kwonlyargs
+    return [{"name": arg.arg, "type": get_type(arg.annotation)} for arg in arguments]
+
+
+def get_lines(node):
+    # Decorators are part of the definition for snippet purposes
+    start = min([node.lineno] + [d.lineno for d in node.decorator_list])
+    return {"startLine": start, "endLine": node.end_lineno}
+
+
+def get_method_kind(decorators):
+    for kind in ("property", "staticmethod", "classmethod"):
+        if kind in decorators:
+            return kind
+    return "method"
+
+
+def extract_method(node, file):
+    decorators = [get_decorator_name(d) for d in node.decorator_list]
+    kind = get_method_kind(decorators)
+    return {
+        "file": file,
+        "name": node.name,
+        "kind": kind,
+        "isStatic": kind == "staticmethod",
+        "isClassMethod": kind == "classmethod",
+        "isAsync": isinstance(node, ast.AsyncFunctionDef),
+        "access": get_access(node.name),
+        "parameters": get_parameters(node),
+        "returns": get_type(node.returns),
+        "decorators": decorators,
+        "docstring": ast.get_docstring(node) or "",
+        **get_lines(node),
+    }
+
+
+def extract_class(node, file):
+    bases = [ast.unparse(base) for base in node.bases]
+    return {
+        "file": file,
+        "name": node.name,
+        "abstract": "ABC" in bases,
+        "extends": ", ".join(bases) or None,
+        "implements": None,
+        "methods": [
+            extract_method(member, file)
+            for member in node.body
+            if isinstance(member, (ast.FunctionDef, ast.AsyncFunctionDef))
+            and not is_special(member.name)
+        ],
+        "docstring": ast.get_docstring(node) or "",
+        "access": "public",
+        **get_lines(node),
+    }
+
+
+def extract_function(node, file):
+    return {
+        "file": file,
+        "name": node.name,
+        "isExported": False,
+        "isDefaultExport": False,
+        "isAsync": isinstance(node, ast.AsyncFunctionDef),
+        "parameters": get_parameters(node),
+        "returns": get_type(node.returns),
+        "docstring": ast.get_docstring(node) or "",
+        "access": "public",
+        **get_lines(node),
+    }
+
+
+def extract_sdk(package_dir):
+    package_dir = Path(package_dir)
+    data = {"classes": [], "functions": []}
+
+    for path in sorted(package_dir.rglob("*.py"), key=lambda p: p.as_posix()):
+        file = f"{FILE_PREFIX}/{path.relative_to(package_dir).as_posix()}"
+        tree = ast.parse(path.read_text(encoding="utf-8"), filename=str(path))
+
+        for node in tree.body:
+            if isinstance(node, ast.ClassDef) and not is_private(node.name):
+                data["classes"].append(extract_class(node, file))
+            elif isinstance(
+                node, (ast.FunctionDef, ast.AsyncFunctionDef)
+            ) and not is_private(node.name):
+                data["functions"].append(extract_function(node, file))
+
+    return data
+
+
+if __name__ == "__main__":
+    if len(sys.argv) != 2:
+        sys.exit(__doc__)
+    json.dump(extract_sdk(sys.argv[1]), sys.stdout, indent=2)
@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import type { DirectoryNode, PairCounts } from "@/lib/directories";
+import { formatParity } from "@/lib/parity";
+
+interface DirectoryTreeProps {
+  root: DirectoryNode;
+  // Directory the comparison is filtered to, "" for none
+  selectedPath: string;
+  onSelect: (path: string) => void;
+}
+
+const renderCounts = (counts: PairCounts) => (
+  <span className="font-mono">
+    <span className="text-black" title="In both SDKs">
+      {counts.common}
+    </span>
+    {" / "}
+    <span className="text-blue-700" title="TypeScript only">
+      {counts.tsOnly}
+    </span>
+    {" / "}
+    <span className="text-green-700" title="Python only">
+      {counts.pythonOnly}
+    </span>
+  </span>
+);
+
+export default function DirectoryTree({
+  root,
+  selectedPath,
+  onSelect,
+}: DirectoryTreeProps) {
+  // The root starts expanded so the top-level folders are listed
+  const [expanded, setExpanded] = useState<Set<string>>(new Set([root.path]));
+
+  const toggle = (path: string) => {
+    setExpanded((prev) => {
+      const newSet = new Set(prev);
+      if (newSet.has(path)) {
+        newSet.delete(path);
+      } else {
+        newSet.add(path);
+      }
+      return newSet;
+    });
+  };
+
+  const renderNode = (
+    node: DirectoryNode,
+    depth: number
+  ): React.ReactNode[] => {
+    const isExpanded = expanded.has(node.path);
+    const isSelected = node.path === selectedPath;
+    return [
+      <tr
+        key={node.path || "/"}
+        className={`border-b border-gray-200 hover:bg-gray-50 ${
+          isSelected ? "bg-[#D0D0FF]" : ""
+        }`}
+      >
+        <td className="border-r border-gray-300 px-2 py-1">
+          <div
+            className="flex items-center"
+            style={{ paddingLeft: `${depth * 16}px` }}
+          >
+            <button
+              onClick={() => toggle(node.path)}
+              className={`w-4 text-gray-600 ${
+                node.children.length === 0 ? "invisible" : ""
+              }`}
+              title={isExpanded ? "Collapse" : "Expand"}
+            >
+              {isExpanded ? "▾" : "▸"}
+            </button>
+            <button
+              onClick={() => onSelect(isSelected ? "" : node.path)}
+              className="text-blue-600 hover:text-blue-800 hover:underline font-mono"
+              title={
+                isSelected
+                  ? "Show all directories"
+                  : `Only show ${node.path || "everything"}`
+              }
+            >
+              📁 {node.name}
+            </button>
+          </div>
+        </td>
+        <td className="border-r border-gray-300 px-2 py-1">
+          <div className="flex items-center gap-2">
+            <div className="w-24 h-2 bg-white border border-t-[#808080] border-l-[#808080] border-r-[#FFFFFF] border-b-[#FFFFFF]">
+              <div
+                className="h-full bg-[#000080]"
+                style={{ width: `${node.parity.ratio * 100}%` }}
+              />
+            </div>
+            <span className="font-mono">{formatParity(node.parity)}</span>
+          </div>
+        </td>
+        <td className="border-r border-gray-300 px-2 py-1">
+          {renderCounts(node.classes)}
+        </td>
+        <td className="border-r border-gray-300 px-2 py-1">
+          {renderCounts(node.methods)}
+        </td>
+        <td className="px-2 py-1">{renderCounts(node.functions)}</td>
+      </tr>,
+      ...(isExpanded
+        ? node.children.flatMap((child) => renderNode(child, depth + 1))
+        : []),
+    ];
+  };
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="bg-[#E0E0E0] border-b border-gray-300">
+          <th className="border-r border-gray-300 px-2 py-1 text-left font-bold">
+            Directory
+          </th>
+          <th className="border-r border-gray-300 px-2 py-1 text-left font-bold">
+            Parity
+          </th>
+          <th className="border-r border-gray-300 px-2 py-1 text-left font-bold">
+            Classes (both / TS / Py)
+          </th>
+          <th className="border-r border-gray-300 px-2 py-1 text-left font-bold">
+            Methods (both / TS / Py)
+          </th>
+          <th className="px-2 py-1 text-left font-bold">
+            Functions (both / TS / Py)
+          </th>
+        </tr>
+      </thead>
+      <tbody>{renderNode(root, 0)}</tbody>
+    </table>
+  );
+}
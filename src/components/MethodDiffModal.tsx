@@ -0,0 +1,200 @@
+import React, { useMemo, useRef } from "react";
+import Prism from "prismjs";
+import "prismjs/components/prism-typescript";
+import "prismjs/components/prism-python";
+import { alignLines, getLineIdentifiers } from "@/lib/alignment";
+
+interface DiffSide {
+  title: string;
+  code: string;
+  // Line number of the first line of `code` in its file
+  startLine: number;
+}
+
+interface MethodDiffModalProps {
+  title: string;
+  // Either side is undefined while its snippet is still loading, or if it
+  // failed to load; lines are only aligned once both are there, and a side
+  // whose counterpart failed is shown unaligned
+  ts?: DiffSide;
+  python?: DiffSide;
+  // Why a side failed to load
+  errors?: { ts?: string; python?: string };
+  onClose: () => void;
+}
+
+const LANGUAGES = { ts: "typescript", python: "python" } as const;
+
+// Each line is highlighted on its own so rows can be laid out independently;
+// constructs spanning lines (docstrings, block comments) lose their colouring
+const highlightLine = (line: string, sdkName: "ts" | "python"): string => {
+  const language = LANGUAGES[sdkName];
+  try {
+    return Prism.highlight(line, Prism.languages[language], language);
+  } catch (error) {
+    console.error("Failed to highlight code:", error);
+    return line;
+  }
+};
+
+export default function MethodDiffModal({
+  title,
+  ts,
+  python,
+  errors = {},
+  onClose,
+}: MethodDiffModalProps) {
+  const tsPaneRef = useRef<HTMLDivElement>(null);
+  const pythonPaneRef = useRef<HTMLDivElement>(null);
+  const isScrollingRef = useRef(false);
+
+  const tsLines = useMemo(() => ts?.code.split("\n") || [], [ts]);
+  const pythonLines = useMemo(() => python?.code.split("\n") || [], [python]);
+  const rows = useMemo(
+    () => alignLines(tsLines, pythonLines),
+    [tsLines, pythonLines]
+  );
+  const unmatched = {
+    ts: rows.filter(
+      (row) =>
+        row.ts !== undefined &&
+        row.similarity === 0 &&
+        getLineIdentifiers(tsLines[row.ts]).size > 0
+    ).length,
+    python: rows.filter(
+      (row) =>
+        row.python !== undefined &&
+        row.similarity === 0 &&
+        getLineIdentifiers(pythonLines[row.python]).size > 0
+    ).length,
+  };
+
+  const handleScroll = (
+    sourceRef: React.RefObject<HTMLDivElement | null>,
+    targetRef: React.RefObject<HTMLDivElement | null>
+  ) => {
+    if (!isScrollingRef.current && sourceRef.current && targetRef.current) {
+      isScrollingRef.current = true;
+      targetRef.current.scrollTop = sourceRef.current.scrollTop;
+      targetRef.current.scrollLeft = sourceRef.current.scrollLeft;
+      setTimeout(() => {
+        isScrollingRef.current = false;
+      }, 50);
+    }
+  };
+
+  const renderCell = (
+    sdkName: "ts" | "python",
+    side: DiffSide,
+    lines: string[],
+    index: number | undefined,
+    similarity: number
+  ) => {
+    if (index === undefined) {
+      return <div className="bg-[#2a2a2a]">&nbsp;</div>;
+    }
+    // Lines with no counterpart that actually do something, as opposed to
+    // blank lines and lone brackets, are where the ports diverge
+    const isUnmatched =
+      similarity === 0 && getLineIdentifiers(lines[index]).size > 0;
+    return (
+      <div className={`flex ${isUnmatched ? "bg-[#4a1f1f]" : ""}`}>
+        <span className="w-10 shrink-0 pr-2 text-right text-gray-500 select-none">
+          {side.startLine + index}
+        </span>
+        <code
+          className={`language-${LANGUAGES[sdkName]} whitespace-pre`}
+          dangerouslySetInnerHTML={{
+            __html: highlightLine(lines[index], sdkName) || " ",
+          }}
+        />
+      </div>
+    );
+  };
+
+  const renderPane = (
+    sdkName: "ts" | "python",
+    side: DiffSide | undefined,
+    lines: string[],
+    paneRef: React.RefObject<HTMLDivElement | null>,
+    otherRef: React.RefObject<HTMLDivElement | null>
+  ) => (
+    <div className="flex-1 flex flex-col min-w-0">
+      <div className="text-xs text-black font-mono px-1 py-0.5 truncate">
+        {side ? side.title : errors[sdkName] ? "Failed to load" : "Loading..."}
+        {ts && python && unmatched[sdkName] > 0 && (
+          <span className="text-red-700 ml-2">
+            {unmatched[sdkName]} unmatched lines
+          </span>
+        )}
+      </div>
+      <div
+        ref={paneRef}
+        onScroll={() => handleScroll(paneRef, otherRef)}
+        className="flex-1 overflow-auto bg-black text-xs border-2 border-t-[#808080] border-l-[#808080] border-r-[#FFFFFF] border-b-[#FFFFFF]"
+      >
+        {!side && errors[sdkName] && (
+          <div className="p-2 text-red-400 whitespace-pre-wrap">
+            {errors[sdkName]}
+          </div>
+        )}
+        {side &&
+          (ts && python ? (
+            <pre className="p-2 min-w-fit">
+              {rows.map((row, i) => (
+                <React.Fragment key={i}>
+                  {renderCell(
+                    sdkName,
+                    side,
+                    lines,
+                    row[sdkName],
+                    row.similarity
+                  )}
+                </React.Fragment>
+              ))}
+            </pre>
+          ) : (
+            errors[sdkName === "ts" ? "python" : "ts"] && (
+              // Nothing to align against, so the lines are shown as they
+              // are, none of them flagged as unmatched
+              <pre className="p-2 min-w-fit">
+                {lines.map((_, i) => (
+                  <React.Fragment key={i}>
+                    {renderCell(sdkName, side, lines, i, 1)}
+                  </React.Fragment>
+                ))}
+              </pre>
+            )
+          ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#C0C0C0] border-2 border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] w-full max-w-6xl h-[80vh] flex flex-col"
+        style={{ fontFamily: "MS Sans Serif, sans-serif" }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="bg-[#000080] text-white text-sm font-bold px-2 py-1 flex items-center justify-between">
+          <span className="truncate">{title}</span>
+          <button
+            onClick={onClose}
+            className="bg-[#C0C0C0] border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] w-5 h-5 text-xs text-black leading-none active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF]"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+        <div className="flex-1 flex gap-2 p-2 min-h-0">
+          {renderPane("ts", ts, tsLines, tsPaneRef, pythonPaneRef)}
+          {renderPane("python", python, pythonLines, pythonPaneRef, tsPaneRef)}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import React from "react";
+import { getDocState } from "@/lib/docs";
+import {
+  getCleanFilePath,
+  getLineCount,
+  type Method,
+  type SDKName,
+} from "@/lib/sdk";
+import { formatDeclaration, getMethodFlags } from "@/lib/signature";
+
+export interface HoverCardSide {
+  method: Method;
+  file: string;
+  // The base class defining the method, when the class only inherits it
+  inheritedFrom?: string;
+}
+
+interface MethodHoverCardProps {
+  // Referenced by the method row's `aria-describedby`
+  id: string;
+  title: string;
+  ts?: HoverCardSide;
+  python?: HoverCardSide;
+  status: { icon: React.ReactNode; label: string };
+  // Viewport coordinates; the card sits above the row when there's no room
+  // below it
+  position: { top?: number; bottom?: number; left: number };
+}
+
+const LABELS = { ts: "TypeScript", python: "Python" } as const;
+
+const renderSide = (sdkName: SDKName, side: HoverCardSide | undefined) => {
+  if (!side) {
+    return (
+      <div className="text-gray-500 italic">
+        Not in the {LABELS[sdkName]} SDK
+      </div>
+    );
+  }
+  const { method, file, inheritedFrom } = side;
+  const docState = getDocState(method);
+  return (
+    <div className="space-y-1 min-w-0">
+      <div className="font-semibold">
+        {LABELS[sdkName]}
+        {inheritedFrom && (
+          <span className="font-normal text-gray-600">
+            {" "}
+            · inherited from {inheritedFrom}
+          </span>
+        )}
+      </div>
+      {(method.decorators || []).map((decorator) => (
+        <div key={decorator} className="font-mono text-purple-700">
+          @{decorator}
+        </div>
+      ))}
+      <div className="font-mono whitespace-pre-wrap break-words">
+        {formatDeclaration(method, sdkName)}
+      </div>
+      {getMethodFlags(method, sdkName).length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {getMethodFlags(method, sdkName).map((flag) => (
+            <span
+              key={flag}
+              className="bg-[#C0C0C0] border border-gray-500 px-1 font-mono"
+            >
+              {flag}
+            </span>
+          ))}
+        </div>
+      )}
+      {docState === "documented" ? (
+        <div className="whitespace-pre-wrap max-h-40 overflow-hidden border-l-2 border-gray-400 pl-1">
+          {method.docstring}
+        </div>
+      ) : (
+        <div className="text-gray-500 italic">
+          {docState === "unknown"
+            ? "Documentation not captured in this dump"
+            : "No documentation"}
+        </div>
+      )}
+      <div className="text-gray-600">
+        {getCleanFilePath(file, sdkName)}:{method.startLine}–{method.endLine} (
+        {getLineCount(method)} lines)
+      </div>
+    </div>
+  );
+};
+
+// A tooltip-style card; it ignores the pointer so that it never covers the
+// row it describes or keeps itself open
+export default function MethodHoverCard({
+  id,
+  title,
+  ts,
+  python,
+  status,
+  position,
+}: MethodHoverCardProps) {
+  return (
+    <div
+      id={id}
+      role="tooltip"
+      className="fixed z-40 w-[40rem] max-w-[95vw] bg-[#FFFFE0] border border-black shadow-[2px_2px_0px_#808080] p-2 text-xs text-black pointer-events-none"
+      style={position}
+    >
+      <div className="flex items-center space-x-1 mb-1 border-b border-gray-400 pb-1">
+        {status.icon}
+        <span className="font-semibold font-mono">{title}</span>
+        <span className="text-gray-700">— {status.label}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {renderSide("ts", ts)}
+        {renderSide("python", python)}
+      </div>
+    </div>
+  );
+}
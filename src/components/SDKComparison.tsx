@@ -1,4 +1,4 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useMemo, useEffect } from "react";
 import Prism from "prismjs";
 import "prismjs/components/prism-typescript";
 import "prismjs/components/prism-python";
@@ -8,34 +8,71 @@ import { RetroGrid } from "./ui/retro-grid";
 import { HyperText } from "./ui/hyper-text";
 import Tilt from "react-parallax-tilt";
 import { SparklesText } from "./ui/sparkles-text";
-
-interface Method {
-  name: string;
-  kind: string;
-  parameters?: Array<{ name: string; type: string }>;
-  returns?: string;
-  isAsync?: boolean;
-  decorators?: string[];
-  line?: number;
-  startLine?: number;
-  endLine?: number;
-}
-
-interface Class {
-  name: string;
-  file: string;
-  methods: Method[];
-  abstract?: boolean;
-  extends?: string;
-  implements?: string[];
-  line?: number;
-  startLine?: number;
-  endLine?: number;
-}
-
-interface SDKData {
-  classes: Class[];
-}
+import MethodDiffModal from "./MethodDiffModal";
+import MethodHoverCard, { type HoverCardSide } from "./MethodHoverCard";
+import DirectoryTree from "./DirectoryTree";
+import {
+  getCleanFilePath,
+  getLineCount,
+  getSourceRef,
+  getSourceRootUrl,
+  getSourceUrl,
+  type Class,
+  type Method,
+  type SDKData,
+  type SDKFunction,
+  type SDKName,
+} from "@/lib/sdk";
+import { ACCESS_FILTERS, isMethodIncluded, type Access } from "@/lib/access";
+import { createMatcher, type MethodPair } from "@/lib/matching";
+import {
+  findSetter,
+  foldAccessors,
+  getKindLabel,
+  getKindMismatch,
+  hasAsyncMismatch,
+  isAsyncMethod,
+  SHAPE_LABELS,
+} from "@/lib/kinds";
+import { diffSignatures, hasSignatureMismatch } from "@/lib/signature";
+import { defaultSnippetProvider } from "@/lib/snippets";
+import { suggestMatches } from "@/lib/suggestions";
+import {
+  PARITY_WEIGHTINGS,
+  formatParity,
+  getClassParity,
+  getOverallParity,
+  type Parity,
+  type ParityWeighting,
+} from "@/lib/parity";
+import {
+  getMethodAnchor,
+  parseMethodAnchor,
+  parseViewState,
+  serializeViewState,
+  type Panel,
+  type MethodAnchor,
+  type ViewState,
+} from "@/lib/permalink";
+import {
+  getClassQueryItems,
+  getFunctionQueryItem,
+  getMethodQueryItem,
+  getQueryCompletions,
+  getQueryFieldValue,
+  parseQuery,
+  QUERY_FIELDS,
+  QuerySyntaxError,
+  setQueryField,
+  type QueryField,
+} from "@/lib/query";
+import { buildDirectoryTree } from "@/lib/directories";
+import { getModuleMismatch } from "@/lib/paths";
+import {
+  getFunctionPairStatus,
+  matchFunctions,
+  type FunctionPair,
+} from "@/lib/functions";
 
 interface SDKComparisonProps {
   tsData: SDKData;
@@ -50,6 +87,8 @@ export default function SDKComparison({
   const [showTsOnly, setShowTsOnly] = useState(false);
   const [showPythonOnly, setShowPythonOnly] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
+  // Cursor position in the search box while it has focus, for autocomplete
+  const [searchCursor, setSearchCursor] = useState<number | null>(null);
   const [hideEmptyClasses, setHideEmptyClasses] = useState(true);
   const [expandedClasses, setExpandedClasses] = useState<Set<string>>(
     new Set()
@@ -75,6 +114,10 @@ export default function SDKComparison({
   const [loadingSnippets, setLoadingSnippets] = useState<Set<string>>(
     new Set()
   );
+  // Why each snippet that failed to load did, until it's fetched again
+  const [snippetErrors, setSnippetErrors] = useState<Map<string, string>>(
+    new Map()
+  );
   const [expandedSnippets, setExpandedSnippets] = useState<Set<string>>(
     new Set()
   );
@@ -86,20 +129,71 @@ export default function SDKComparison({
   const [showLeaderboard, setShowLeaderboard] = useState(false);
   const [showRatioLeaderboard, setShowRatioLeaderboard] = useState(false);
   const [showTsRatioLeaderboard, setShowTsRatioLeaderboard] = useState(false);
-
+  const [showDirectoryTree, setShowDirectoryTree] = useState(false);
+  const [expandedSignatureDiffs, setExpandedSignatureDiffs] = useState<
+    Set<string>
+  >(new Set());
+  const [diffPair, setDiffPair] = useState<{
+    className: string;
+    tsMethod: Method;
+    pythonMethod: Method;
+  } | null>(null);
+  const [view, setView] = useState<"classes" | "functions">("classes");
+  const [parityWeighting, setParityWeighting] =
+    useState<ParityWeighting>("methods");
+  const [accessFilter, setAccessFilter] = useState<Access>("public");
+  const accessedMethods = ACCESS_FILTERS.find(
+    ({ value }) => value === accessFilter
+  )!.methods;
+  // The URL is only written to once it has been read, so the defaults of the
+  // first render don't overwrite a pasted link
+  const [viewStateRestored, setViewStateRestored] = useState(false);
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+  const [copiedLink, setCopiedLink] = useState<string | null>(null);
+  // Method whose hover card is open, and where on screen to put it
+  const [hoverCard, setHoverCard] = useState<{
+    className: string;
+    methodName: string;
+    sdkName: SDKName;
+    position: { top?: number; bottom?: number; left: number };
+  } | null>(null);
+
+  const searchInputRef = useRef<HTMLInputElement>(null);
   const tsColumnRef = useRef<HTMLDivElement>(null);
   const pythonColumnRef = useRef<HTMLDivElement>(null);
   const isScrollingRef = useRef(false);
+  const hoverCardTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined);
 
-  const tsClassesMap = new Map(tsData.classes.map((cls) => [cls.name, cls]));
+  const matcher = useMemo(
+    () => createMatcher(tsData, pythonData, undefined, accessFilter),
+    [tsData, pythonData, accessFilter]
+  );
+
+  // Both maps are keyed by the class pair key, which is the TS class name
+  // unless the class only exists in Python
+  const tsClassesMap = new Map(
+    matcher.classPairs.flatMap((pair) =>
+      pair.ts ? [[pair.key, pair.ts] as const] : []
+    )
+  );
   const pythonClassesMap = new Map(
-    pythonData.classes.map((cls) => [cls.name, cls])
+    matcher.classPairs.flatMap((pair) =>
+      pair.python ? [[pair.key, pair.python] as const] : []
+    )
   );
 
-  const allClassNames = new Set([
-    ...tsData.classes.map((cls) => cls.name),
-    ...pythonData.classes.map((cls) => cls.name),
-  ]);
+  // A class's methods that pass the access filter; TS constructors never count.
+  // A setter shares its getter's row, as the matcher pairs them as one.
+  const getVisibleMethods = (sdkClass: Class, sdkName: string) =>
+    foldAccessors(sdkClass.methods).filter(
+      (method) =>
+        method.name !== "constructor" &&
+        isMethodIncluded(method, sdkName, accessFilter)
+    );
+  const countVisibleMethods = (sdkClass: Class | undefined, sdkName: string) =>
+    sdkClass ? getVisibleMethods(sdkClass, sdkName).length : 0;
+
+  const allClassNames = new Set(matcher.classPairs.map((pair) => pair.key));
 
   const sortedClassNames = Array.from(allClassNames).sort((a, b) => {
     const tsClassA = tsClassesMap.get(a);
@@ -109,11 +203,11 @@ export default function SDKComparison({
 
     // Calculate total method count for each class
     const methodCountA =
-      (tsClassA?.methods.filter((m) => m.name !== "constructor").length || 0) +
-      (pythonClassA?.methods.length || 0);
+      countVisibleMethods(tsClassA, "ts") +
+      countVisibleMethods(pythonClassA, "python");
     const methodCountB =
-      (tsClassB?.methods.filter((m) => m.name !== "constructor").length || 0) +
-      (pythonClassB?.methods.length || 0);
+      countVisibleMethods(tsClassB, "ts") +
+      countVisibleMethods(pythonClassB, "python");
 
     // Sort by method count (descending), then alphabetically
     if (methodCountA !== methodCountB) {
@@ -122,13 +216,41 @@ export default function SDKComparison({
     return a.localeCompare(b);
   });
 
+  const searchQuery = useMemo(() => {
+    try {
+      return { matches: parseQuery(searchTerm) };
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) {
+        // Filter nothing until the query is fixed
+        return { matches: () => true, error };
+      }
+      throw error;
+    }
+  }, [searchTerm]);
+
+  const searchCompletion =
+    searchCursor === null
+      ? undefined
+      : getQueryCompletions(searchTerm, searchCursor);
+
+  const applySearchCompletion = (option: string) => {
+    if (!searchCompletion) return;
+    const { from, to } = searchCompletion;
+    const cursor = from + option.length;
+    setSearchTerm(searchTerm.slice(0, from) + option + searchTerm.slice(to));
+    setSearchCursor(cursor);
+    requestAnimationFrame(() =>
+      searchInputRef.current?.setSelectionRange(cursor, cursor)
+    );
+  };
+
   const filteredClassNames = sortedClassNames.filter((className) => {
     const tsClass = tsClassesMap.get(className);
     const pythonClass = pythonClassesMap.get(className);
 
     if (hideEmptyClasses) {
-      const tsMethodCount = tsClass?.methods.length || 0;
-      const pythonMethodCount = pythonClass?.methods.length || 0;
+      const tsMethodCount = countVisibleMethods(tsClass, "ts");
+      const pythonMethodCount = countVisibleMethods(pythonClass, "python");
       if (tsMethodCount === 0 && pythonMethodCount === 0) {
         return false;
       }
@@ -143,19 +265,72 @@ export default function SDKComparison({
       matchesToggle = true;
     }
 
-    const text = `${className} ${
-      tsClass?.methods.map((m) => m.name).join(" ") || ""
-    } ${pythonClass?.methods.map((m) => m.name).join(" ") || ""}`.toLowerCase();
+    const classPair = matcher.getClassPair(className);
     const matchesSearch =
-      !searchTerm || text.includes(searchTerm.toLowerCase());
+      !classPair ||
+      getClassQueryItems(classPair, matcher.getMethodPairs(className)).some(
+        searchQuery.matches
+      );
 
     return matchesToggle && matchesSearch;
   });
 
+  const overallParity = useMemo(
+    () => getOverallParity(matcher, parityWeighting),
+    [matcher, parityWeighting]
+  );
+
+  const functionModules = useMemo(
+    () => matchFunctions(tsData, pythonData),
+    [tsData, pythonData]
+  );
+
+  // Matched methods and functions awaited in one SDK but not the other, as
+  // `mismatch:async` finds them
+  const asyncMismatches = useMemo(
+    () => ({
+      methods: matcher.classPairs
+        .flatMap((classPair) => matcher.getMethodPairs(classPair.key))
+        .filter(
+          ({ ts, python }) => ts && python && hasAsyncMismatch(ts, python)
+        ).length,
+      functions: functionModules
+        .flatMap(({ pairs }) => pairs)
+        .filter(
+          ({ ts, python }) => ts && python && hasAsyncMismatch(ts, python)
+        ).length,
+    }),
+    [matcher, functionModules]
+  );
+
+  const directoryTree = useMemo(
+    () => buildDirectoryTree(matcher, functionModules, parityWeighting),
+    [matcher, functionModules, parityWeighting]
+  );
+
+  const filteredFunctionModules = functionModules
+    .map(({ module, pairs }) => ({
+      module,
+      pairs: pairs.filter((pair) => {
+        const status = getFunctionPairStatus(pair);
+        const matchesToggle =
+          (status === "both" && showCommon) ||
+          (status === "ts-only" && showTsOnly) ||
+          (status === "python-only" && showPythonOnly);
+
+        const matchesSearch = searchQuery.matches(getFunctionQueryItem(pair));
+
+        return matchesToggle && matchesSearch;
+      }),
+    }))
+    .filter(({ pairs }) => pairs.length > 0);
+
   const handleScroll = (
     sourceRef: React.RefObject<HTMLDivElement>,
     targetRef: React.RefObject<HTMLDivElement>
   ) => {
+    // The hover card is fixed to where its row was
+    closeHoverCard();
     if (!isScrollingRef.current && sourceRef.current && targetRef.current) {
       isScrollingRef.current = true;
       targetRef.current.scrollTop = sourceRef.current.scrollTop;
@@ -177,18 +352,6 @@ export default function SDKComparison({
     });
   };
 
-  const getCleanFilePath = (filePath: string, sdkName: string): string => {
-    if (sdkName === "ts") {
-      return filePath.replace(/^protocol-v2\/sdk\/src\//, "");
-    } else {
-      return filePath.replace(/^driftpy\//, "");
-    }
-  };
-
-  const toCamelCase = (str: string): string => {
-    return str.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
-  };
-
   const highlightCode = (code: string, language: string): string => {
     try {
       if (language === "typescript") {
@@ -203,6 +366,9 @@ export default function SDKComparison({
     }
   };
 
+  const getDumpMeta = (sdkName: string) =>
+    sdkName === "ts" ? tsData.meta : pythonData.meta;
+
   const fetchCodeSnippet = async (
     filePath: string,
     startLine: number,
@@ -211,21 +377,18 @@ export default function SDKComparison({
     key: string
   ) => {
     setLoadingSnippets((prev) => new Set(prev).add(key));
+    setSnippetErrors((prev) => {
+      const newMap = new Map(prev);
+      newMap.delete(key);
+      return newMap;
+    });
     try {
       const cleanPath = getCleanFilePath(filePath, sdkName);
-      const repo = sdkName === "ts" ? "protocol-v2" : "driftpy";
-      const branch = sdkName === "ts" ? "sdk/src" : "src/driftpy";
-
-      const response = await fetch(
-        `https://api.github.com/repos/drift-labs/${repo}/contents/${branch}/${cleanPath}`
+      const content = await defaultSnippetProvider.fetchSource(
+        filePath,
+        sdkName,
+        getDumpMeta(sdkName)
       );
-
-      if (!response.ok) {
-        throw new Error(`GitHub API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const content = atob(data.content);
       const lines = content.split("\n");
 
       const snippetStart = Math.max(0, startLine - 1);
@@ -245,6 +408,12 @@ export default function SDKComparison({
       );
     } catch (error) {
       console.error("Failed to fetch code snippet:", error);
+      setSnippetErrors((prev) =>
+        new Map(prev).set(
+          key,
+          error instanceof Error ? error.message : String(error)
+        )
+      );
     } finally {
       setLoadingSnippets((prev) => {
         const newSet = new Set(prev);
@@ -281,13 +450,12 @@ export default function SDKComparison({
 
       if (otherClass) {
         // Find the corresponding method
-        const normalizedMethodName =
-          otherSdkName === "python" ? toCamelCase(methodName) : methodName;
-        const otherMethod = otherClass.methods.find((m) =>
-          otherSdkName === "python"
-            ? toCamelCase(m.name) === normalizedMethodName
-            : m.name === normalizedMethodName
+        const methodPair = matcher.findMethodPair(
+          className,
+          methodName,
+          sdkName
         );
+        const otherMethod = methodPair?.[otherSdkName];
 
         if (otherMethod) {
           const otherKey = `${otherSdkName}-${className}-${otherMethod.name}`;
@@ -295,9 +463,9 @@ export default function SDKComparison({
             newExpanded.add(otherKey);
             if (!codeSnippets.has(otherKey)) {
               fetchCodeSnippet(
-                otherClass.file,
-                otherMethod.startLine || otherMethod.line || 1,
-                otherMethod.endLine || otherMethod.line || 1,
+                getMethodFile(otherClass, otherSdkName, methodPair),
+                otherMethod.startLine,
+                otherMethod.endLine,
                 otherSdkName,
                 otherKey
               );
@@ -317,13 +485,11 @@ export default function SDKComparison({
 
       if (otherClass) {
         // Find and collapse the corresponding method
-        const normalizedMethodName =
-          otherSdkName === "python" ? toCamelCase(methodName) : methodName;
-        const otherMethod = otherClass.methods.find((m) =>
-          otherSdkName === "python"
-            ? toCamelCase(m.name) === normalizedMethodName
-            : m.name === normalizedMethodName
-        );
+        const otherMethod = matcher.findMethodPair(
+          className,
+          methodName,
+          sdkName
+        )?.[otherSdkName];
 
         if (otherMethod) {
           const otherKey = `${otherSdkName}-${className}-${otherMethod.name}`;
@@ -335,6 +501,37 @@ export default function SDKComparison({
     setExpandedCodeSnippets(newExpanded);
   };
 
+  const toggleFunctionSnippet = (
+    tsFunction: SDKFunction | undefined,
+    pythonFunction: SDKFunction | undefined,
+    pairKey: string
+  ) => {
+    const newExpanded = new Set(expandedCodeSnippets);
+    const sides: Array<[string, SDKFunction | undefined]> = [
+      ["ts", tsFunction],
+      ["python", pythonFunction],
+    ];
+    const isExpanding = !sides.some(([sdkName, fn]) =>
+      fn ? newExpanded.has(`${sdkName}-fn-${pairKey}`) : false
+    );
+
+    // Functions always open and close on both sides together
+    sides.forEach(([sdkName, fn]) => {
+      if (!fn) return;
+      const key = `${sdkName}-fn-${pairKey}`;
+      if (isExpanding) {
+        newExpanded.add(key);
+        if (!codeSnippets.has(key)) {
+          fetchCodeSnippet(fn.file, fn.startLine, fn.endLine, sdkName, key);
+        }
+      } else {
+        newExpanded.delete(key);
+      }
+    });
+
+    setExpandedCodeSnippets(newExpanded);
+  };
+
   const toggleSnippetExpansion = (key: string) => {
     setExpandedSnippets((prev) => {
       const newSet = new Set(prev);
@@ -347,6 +544,197 @@ export default function SDKComparison({
     });
   };
 
+  const toggleSignatureDiff = (key: string) => {
+    setExpandedSignatureDiffs((prev) => {
+      const newSet = new Set(prev);
+      if (newSet.has(key)) {
+        newSet.delete(key);
+      } else {
+        newSet.add(key);
+      }
+      return newSet;
+    });
+  };
+
+  // Opens the side-by-side diff, loading whichever snippets aren't cached yet
+  const openMethodDiff = (
+    className: string,
+    tsMethod: Method,
+    pythonMethod: Method,
+    inherited?: MethodPair["inherited"]
+  ) => {
+    setDiffPair({ className, tsMethod, pythonMethod });
+    const sides = [
+      {
+        sdkName: "ts",
+        method: tsMethod,
+        sdkClass: tsClassesMap.get(className),
+      },
+      {
+        sdkName: "python",
+        method: pythonMethod,
+        sdkClass: pythonClassesMap.get(className),
+      },
+    ];
+    sides.forEach(({ sdkName, method, sdkClass }) => {
+      const key = `${sdkName}-${className}-${method.name}`;
+      if (sdkClass && !codeSnippets.has(key) && !loadingSnippets.has(key)) {
+        fetchCodeSnippet(
+          getMethodFile(sdkClass, sdkName, { inherited }),
+          method.startLine,
+          method.endLine,
+          sdkName,
+          key
+        );
+      }
+    });
+  };
+
+  const renderMethodDiff = () => {
+    if (!diffPair) return null;
+    const { className, tsMethod, pythonMethod } = diffPair;
+    const getKey = (sdkName: string, method: Method) =>
+      `${sdkName}-${className}-${method.name}`;
+    const getSide = (sdkName: string, method: Method) => {
+      const snippet = codeSnippets.get(getKey(sdkName, method));
+      return snippet
+        ? {
+            title: `${snippet.file}:${snippet.startLine || method.startLine}`,
+            code: snippet.content,
+            startLine: snippet.startLine || method.startLine,
+          }
+        : undefined;
+    };
+    return (
+      <MethodDiffModal
+        title={`${className}: ${tsMethod.name} ↔ ${pythonMethod.name}`}
+        ts={getSide("ts", tsMethod)}
+        python={getSide("python", pythonMethod)}
+        errors={{
+          ts: snippetErrors.get(getKey("ts", tsMethod)),
+          python: snippetErrors.get(getKey("python", pythonMethod)),
+        }}
+        onClose={() => setDiffPair(null)}
+      />
+    );
+  };
+
+  const viewState: ViewState = {
+    searchTerm,
+    showCommon,
+    showTsOnly,
+    showPythonOnly,
+    hideEmptyClasses,
+    expandedClasses: Array.from(expandedClasses),
+    hideCommonMethods: Array.from(hideCommonMethods),
+    sortByLength: Array.from(sortByLength),
+    panels: (
+      [
+        [showLeaderboard, "longest"],
+        [showRatioLeaderboard, "python-ratio"],
+        [showTsRatioLeaderboard, "ts-ratio"],
+        [showDirectoryTree, "directories"],
+      ] as const
+    ).flatMap(([isOpen, panel]): Panel[] => (isOpen ? [panel] : [])),
+    view,
+    parityWeighting,
+    access: accessFilter,
+  };
+  const viewQuery = serializeViewState(viewState);
+
+  // Restores the state from the URL after hydration; reading it during the
+  // first render would make the client markup differ from the static page
+  useEffect(() => {
+    const state = parseViewState(window.location.search);
+    setSearchTerm(state.searchTerm);
+    setShowCommon(state.showCommon);
+    setShowTsOnly(state.showTsOnly);
+    setShowPythonOnly(state.showPythonOnly);
+    setHideEmptyClasses(state.hideEmptyClasses);
+    setExpandedClasses(new Set(state.expandedClasses));
+    setHideCommonMethods(new Set(state.hideCommonMethods));
+    setSortByLength(new Set(state.sortByLength));
+    setShowLeaderboard(state.panels.includes("longest"));
+    setShowRatioLeaderboard(state.panels.includes("python-ratio"));
+    setShowTsRatioLeaderboard(state.panels.includes("ts-ratio"));
+    setShowDirectoryTree(state.panels.includes("directories"));
+    setView(state.view);
+    setParityWeighting(state.parityWeighting);
+    setAccessFilter(state.access);
+
+    // A method link also opens the method's class and code snippet
+    const anchor = parseMethodAnchor(window.location.hash);
+    const sdkClass =
+      anchor &&
+      (anchor.sdkName === "ts" ? tsClassesMap : pythonClassesMap).get(
+        anchor.className
+      );
+    const method =
+      sdkClass &&
+      foldAccessors(sdkClass.methods).find(
+        (m) => m.name === anchor?.methodName
+      );
+    if (anchor && sdkClass && method) {
+      setView("classes");
+      setExpandedClasses((prev) => new Set(prev).add(anchor.className));
+      toggleCodeSnippet(
+        getMethodAnchor(anchor),
+        sdkClass.file,
+        method.startLine,
+        method.endLine,
+        anchor.sdkName,
+        anchor.className,
+        method.name
+      );
+      setScrollTarget(getMethodAnchor(anchor));
+    }
+    setViewStateRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (!viewStateRestored) return;
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${viewQuery}${window.location.hash}`
+    );
+  }, [viewStateRestored, viewQuery]);
+
+  // Waits for the linked method's class to render before scrolling to it
+  useEffect(() => {
+    if (!scrollTarget) return;
+    const element = document.getElementById(scrollTarget);
+    if (element) {
+      element.scrollIntoView({ block: "center" });
+      setScrollTarget(null);
+    }
+  }, [scrollTarget, expandedClasses]);
+
+  const copyMethodLink = async (anchor: MethodAnchor) => {
+    const hash = getMethodAnchor(anchor);
+    // The current view plus the method's class, in case it was opened from a
+    // leaderboard rather than by expanding the class
+    const query = serializeViewState({
+      ...viewState,
+      view: "classes",
+      expandedClasses: Array.from(
+        new Set([...viewState.expandedClasses, anchor.className])
+      ),
+    });
+    const url = `${window.location.origin}${
+      window.location.pathname
+    }${query}#${encodeURIComponent(hash)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedLink(hash);
+      setTimeout(() => {
+        setCopiedLink((current) => (current === hash ? null : current));
+      }, 2000);
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+    }
+  };
+
   const toggleHideCommonMethods = (classKey: string) => {
     setHideCommonMethods((prev) => {
       const newSet = new Set(prev);
@@ -381,29 +769,21 @@ export default function SDKComparison({
 
     // Check all TypeScript classes
     tsData.classes.forEach((cls) => {
-      cls.methods.forEach((method) => {
-        if (method.name !== "constructor") {
-          const length =
-            (method.endLine || method.line || 1) -
-            (method.startLine || method.line || 1) +
-            1;
-          methodLengths.push({
-            method,
-            className: cls.name,
-            sdkName: "ts",
-            length,
-          });
-        }
+      getVisibleMethods(cls, "ts").forEach((method) => {
+        const length = getLineCount(method);
+        methodLengths.push({
+          method,
+          className: cls.name,
+          sdkName: "ts",
+          length,
+        });
       });
     });
 
     // Check all Python classes
     pythonData.classes.forEach((cls) => {
-      cls.methods.forEach((method) => {
-        const length =
-          (method.endLine || method.line || 1) -
-          (method.startLine || method.line || 1) +
-          1;
+      getVisibleMethods(cls, "python").forEach((method) => {
+        const length = getLineCount(method);
         methodLengths.push({
           method,
           className: cls.name,
@@ -426,58 +806,28 @@ export default function SDKComparison({
       ratio: number;
     }> = [];
 
-    // Create maps for quick lookup
-    const tsMethods = new Map<string, { method: Method; className: string }>();
-    const pythonMethods = new Map<
-      string,
-      { method: Method; className: string }
-    >();
-
-    // Index TypeScript methods
-    tsData.classes.forEach((cls) => {
-      cls.methods.forEach((method) => {
-        if (method.name !== "constructor") {
-          const normalizedName = method.name.toLowerCase().replace(/_/g, "");
-          tsMethods.set(`${cls.name}.${normalizedName}`, {
-            method,
-            className: cls.name,
-          });
-        }
-      });
-    });
-
-    // Index Python methods and find matches
-    pythonData.classes.forEach((cls) => {
-      cls.methods.forEach((method) => {
-        const normalizedName = method.name.toLowerCase().replace(/_/g, "");
-        const pythonLength =
-          (method.endLine || method.line || 1) -
-          (method.startLine || method.line || 1) +
-          1;
-
-        // Look for matching TypeScript method
-        const tsKey = `${cls.name}.${normalizedName}`;
-        const tsMethod = tsMethods.get(tsKey);
-
-        if (tsMethod) {
-          const tsLength =
-            (tsMethod.method.endLine || tsMethod.method.line || 1) -
-            (tsMethod.method.startLine || tsMethod.method.line || 1) +
-            1;
+    // Walk the matched methods of every common class
+    matcher.classPairs.forEach((classPair) => {
+      matcher
+        .getMethodPairs(classPair.key)
+        .forEach(({ ts, python, inherited }) => {
+          // Inherited methods are ranked under the class defining them
+          if (!ts || !python || inherited) return;
+          const pythonLength = getLineCount(python);
+          const tsLength = getLineCount(ts);
 
           // Only include if Python is longer than TypeScript
           if (pythonLength > tsLength) {
             const ratio = pythonLength / tsLength;
             methodRatios.push({
-              methodName: method.name,
-              className: cls.name,
+              methodName: python.name,
+              className: classPair.key,
               pythonLength,
               tsLength,
               ratio,
             });
           }
-        }
-      });
+        });
     });
 
     // Sort by ratio (descending) and return top 15
@@ -493,57 +843,28 @@ export default function SDKComparison({
       ratio: number;
     }> = [];
 
-    // Create maps for quick lookup
-    const pythonMethods = new Map<
-      string,
-      { method: Method; className: string }
-    >();
-
-    // Index Python methods
-    pythonData.classes.forEach((cls) => {
-      cls.methods.forEach((method) => {
-        const normalizedName = method.name.toLowerCase().replace(/_/g, "");
-        pythonMethods.set(`${cls.name}.${normalizedName}`, {
-          method,
-          className: cls.name,
-        });
-      });
-    });
-
-    // Index TypeScript methods and find matches
-    tsData.classes.forEach((cls) => {
-      cls.methods.forEach((method) => {
-        if (method.name !== "constructor") {
-          const normalizedName = method.name.toLowerCase().replace(/_/g, "");
-          const tsLength =
-            (method.endLine || method.line || 1) -
-            (method.startLine || method.line || 1) +
-            1;
-
-          // Look for matching Python method
-          const pythonKey = `${cls.name}.${normalizedName}`;
-          const pythonMethod = pythonMethods.get(pythonKey);
-
-          if (pythonMethod) {
-            const pythonLength =
-              (pythonMethod.method.endLine || pythonMethod.method.line || 1) -
-              (pythonMethod.method.startLine || pythonMethod.method.line || 1) +
-              1;
-
-            // Only include if TypeScript is longer than Python
-            if (tsLength > pythonLength) {
-              const ratio = tsLength / pythonLength;
-              methodRatios.push({
-                methodName: method.name,
-                className: cls.name,
-                pythonLength,
-                tsLength,
-                ratio,
-              });
-            }
+    // Walk the matched methods of every common class
+    matcher.classPairs.forEach((classPair) => {
+      matcher
+        .getMethodPairs(classPair.key)
+        .forEach(({ ts, python, inherited }) => {
+          // Inherited methods are ranked under the class defining them
+          if (!ts || !python || inherited) return;
+          const pythonLength = getLineCount(python);
+          const tsLength = getLineCount(ts);
+
+          // Only include if TypeScript is longer than Python
+          if (tsLength > pythonLength) {
+            const ratio = tsLength / pythonLength;
+            methodRatios.push({
+              methodName: ts.name,
+              className: classPair.key,
+              pythonLength,
+              tsLength,
+              ratio,
+            });
           }
-        }
-      });
+        });
     });
 
     // Sort by ratio (descending) and return top 15
@@ -568,20 +889,34 @@ export default function SDKComparison({
     }
   };
 
-  const getSortedMethods = (sdkClass: Class, sdkName: string): Method[] => {
-    const methods =
-      sdkName === "ts"
-        ? sdkClass.methods.filter((m) => m.name !== "constructor")
-        : sdkClass.methods;
+  const getSortedMethods = (
+    className: string,
+    sdkClass: Class,
+    sdkName: string
+  ): Method[] => {
+    // Only the methods the search query picks out
+    const classPair = matcher.getClassPair(className);
+    const methods = getVisibleMethods(sdkClass, sdkName).filter((method) => {
+      const methodPair = matcher.findMethodPair(
+        className,
+        method.name,
+        sdkName
+      );
+      return (
+        !classPair ||
+        !methodPair ||
+        searchQuery.matches(getMethodQueryItem(classPair, methodPair))
+      );
+    });
 
     // Get the corresponding class from the other SDK
     const otherSdkName = sdkName === "ts" ? "python" : "ts";
     const otherClass =
       otherSdkName === "ts"
-        ? tsClassesMap.get(sdkClass.name)
-        : pythonClassesMap.get(sdkClass.name);
+        ? tsClassesMap.get(className)
+        : pythonClassesMap.get(className);
 
-    const classKey = `${sdkName}-${sdkClass.name}`;
+    const classKey = `${sdkName}-${className}`;
     const shouldHideCommon = hideCommonMethods.has(classKey);
     const shouldSortByLength = sortByLength.has(classKey);
 
@@ -589,10 +924,8 @@ export default function SDKComparison({
       // If no corresponding class, just sort by preference
       if (shouldSortByLength) {
         return methods.sort((a, b) => {
-          const lengthA =
-            (a.endLine || a.line || 1) - (a.startLine || a.line || 1) + 1;
-          const lengthB =
-            (b.endLine || b.line || 1) - (b.startLine || b.line || 1) + 1;
+          const lengthA = getLineCount(a);
+          const lengthB = getLineCount(b);
           return lengthB - lengthA; // Descending by length
         });
       }
@@ -604,13 +937,13 @@ export default function SDKComparison({
     const nonSharedMethods: Method[] = [];
 
     methods.forEach((method) => {
-      const normalizedMethodName =
-        sdkName === "python" ? toCamelCase(method.name) : method.name;
-      const otherMethodNames = otherClass.methods.map((m) =>
-        otherSdkName === "python" ? toCamelCase(m.name) : m.name
+      const methodPair = matcher.findMethodPair(
+        className,
+        method.name,
+        sdkName
       );
 
-      if (otherMethodNames.includes(normalizedMethodName)) {
+      if (methodPair?.[otherSdkName]) {
         sharedMethods.push(method);
       } else {
         nonSharedMethods.push(method);
@@ -631,10 +964,8 @@ export default function SDKComparison({
     // Apply sorting
     if (shouldSortByLength) {
       filteredMethods.sort((a, b) => {
-        const lengthA =
-          (a.endLine || a.line || 1) - (a.startLine || a.line || 1) + 1;
-        const lengthB =
-          (b.endLine || b.line || 1) - (b.startLine || b.line || 1) + 1;
+        const lengthA = getLineCount(a);
+        const lengthB = getLineCount(b);
         return lengthB - lengthA; // Descending by length
       });
     } else {
@@ -658,42 +989,93 @@ export default function SDKComparison({
   };
 
   const getNormalizedMethodName = (
+    className: string,
     methodName: string,
     sdkName: string
   ): string => {
-    return sdkName === "python" ? toCamelCase(methodName) : methodName;
+    return (
+      matcher.findMethodPair(className, methodName, sdkName)?.key ||
+      `${className}.${methodName}`
+    );
   };
 
-  const getMethodComparisonStatus = (
+  const findMethodPair = (
+    className: string,
     methodName: string,
-    tsClass: Class | undefined,
-    pythonClass: Class | undefined,
     currentSdkName: string
   ) => {
-    if (!tsClass || !pythonClass) {
-      return "missing";
-    }
+    const methodPair = matcher.findMethodPair(
+      className,
+      methodName,
+      currentSdkName
+    );
 
-    const tsMethodNames = tsClass.methods
-      .filter((m) => m.name !== "constructor")
-      .map((m) => m.name);
-    const pythonMethodNames = pythonClass.methods.map((m) => m.name);
+    return {
+      tsMethod: methodPair?.ts,
+      pythonMethod: methodPair?.python,
+      inherited: methodPair?.inherited,
+    };
+  };
 
-    const pythonMethodNamesCamelCase = pythonMethodNames.map(toCamelCase);
+  // A method's source file: its class's, or the base class's when the class
+  // only inherits it
+  const getMethodFile = (
+    sdkClass: Class,
+    sdkName: string,
+    methodPair?: Pick<MethodPair, "inherited">
+  ) =>
+    methodPair?.inherited?.sdkName === sdkName
+      ? methodPair.inherited.owner.file
+      : sdkClass.file;
+
+  // Ranked guesses for a method with no counterpart, drawn from the other
+  // SDK's unmatched methods in the same class
+  const getMatchSuggestions = (
+    className: string,
+    method: Method,
+    sdkName: string
+  ) => {
+    if (!tsClassesMap.has(className) || !pythonClassesMap.has(className)) {
+      return [];
+    }
+    const otherSdkName = sdkName === "ts" ? "python" : "ts";
+    const candidates = matcher
+      .getMethodPairs(className)
+      .flatMap((pair) =>
+        pair[sdkName as SDKName] ? [] : [pair[otherSdkName]!]
+      );
+    return suggestMatches(method, sdkName, candidates);
+  };
 
-    const normalizedCurrentMethod =
-      currentSdkName === "python" ? toCamelCase(methodName) : methodName;
+  const getMethodComparisonStatus = (
+    className: string,
+    methodName: string,
+    currentSdkName: string
+  ) => {
+    if (!tsClassesMap.has(className) || !pythonClassesMap.has(className)) {
+      return "missing";
+    }
 
-    const tsHasMethod = tsMethodNames.includes(normalizedCurrentMethod);
-    const pythonHasMethod = pythonMethodNamesCamelCase.includes(
-      normalizedCurrentMethod
+    const methodPair = matcher.findMethodPair(
+      className,
+      methodName,
+      currentSdkName
     );
-
-    if (tsHasMethod && pythonHasMethod) {
-      return "both";
-    } else if (tsHasMethod && !pythonHasMethod) {
+    const tsMethod = methodPair?.ts;
+    const pythonMethod = methodPair?.python;
+
+    if (methodPair?.inherited) {
+      return "inherited";
+    } else if (tsMethod && pythonMethod) {
+      // Calling it the wrong way fails before any argument matters
+      if (getKindMismatch(tsMethod, pythonMethod)) return "kind-mismatch";
+      if (hasAsyncMismatch(tsMethod, pythonMethod)) return "async-mismatch";
+      return hasSignatureMismatch(diffSignatures(tsMethod, pythonMethod))
+        ? "signature-mismatch"
+        : "both";
+    } else if (tsMethod && !pythonMethod) {
       return "ts-only";
-    } else if (!tsHasMethod && pythonHasMethod) {
+    } else if (!tsMethod && pythonMethod) {
       return "python-only";
     } else {
       return "missing";
@@ -701,18 +1083,16 @@ export default function SDKComparison({
   };
 
   const renderMethodIcon = (
+    className: string,
     methodName: string,
-    tsClass: Class | undefined,
-    pythonClass: Class | undefined,
     sdkName: string
   ) => {
-    const status = getMethodComparisonStatus(
-      methodName,
-      tsClass,
-      pythonClass,
-      sdkName
-    );
+    const status = getMethodComparisonStatus(className, methodName, sdkName);
 
+    return renderStatusIcon(status);
+  };
+
+  const renderStatusIcon = (status: string) => {
     switch (status) {
       case "both":
         return (
@@ -747,6 +1127,58 @@ export default function SDKComparison({
             />
           </svg>
         );
+      case "signature-mismatch":
+        return (
+          <svg
+            className="w-3 h-3 text-yellow-600"
+            fill="currentColor"
+            viewBox="0 0 20 20"
+          >
+            <path
+              fillRule="evenodd"
+              d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
+              clipRule="evenodd"
+            />
+          </svg>
+        );
+      case "kind-mismatch":
+        return (
+          <svg
+            className="w-3 h-3 text-orange-600"
+            fill="currentColor"
+            viewBox="0 0 20 20"
+          >
+            <path d="M8 5a1 1 0 100 2h5.586l-1.293 1.293a1 1 0 001.414 1.414l3-3a1 1 0 000-1.414l-3-3a1 1 0 10-1.414 1.414L13.586 5H8zM12 15a1 1 0 100-2H6.414l1.293-1.293a1 1 0 10-1.414-1.414l-3 3a1 1 0 000 1.414l3 3a1 1 0 001.414-1.414L6.414 15H12z" />
+          </svg>
+        );
+      case "async-mismatch":
+        return (
+          <svg
+            className="w-3 h-3 text-purple-600"
+            fill="currentColor"
+            viewBox="0 0 20 20"
+          >
+            <path
+              fillRule="evenodd"
+              d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z"
+              clipRule="evenodd"
+            />
+          </svg>
+        );
+      case "inherited":
+        return (
+          <svg
+            className="w-3 h-3 text-teal-600"
+            fill="currentColor"
+            viewBox="0 0 20 20"
+          >
+            <path
+              fillRule="evenodd"
+              d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-8.707l-3-3a1 1 0 00-1.414 0l-3 3a1 1 0 001.414 1.414L9 9.414V13a1 1 0 102 0V9.414l1.293 1.293a1 1 0 001.414-1.414z"
+              clipRule="evenodd"
+            />
+          </svg>
+        );
       case "python-only":
         return <span className="text-lg">🐍</span>;
       default:
@@ -766,31 +1198,124 @@ export default function SDKComparison({
     }
   };
 
-  const getMethodTooltip = (
+  const getMethodStatusLabel = (
+    className: string,
     methodName: string,
-    tsClass: Class | undefined,
-    pythonClass: Class | undefined,
     sdkName: string
   ) => {
-    const status = getMethodComparisonStatus(
-      methodName,
-      tsClass,
-      pythonClass,
-      sdkName
-    );
+    const status = getMethodComparisonStatus(className, methodName, sdkName);
 
     switch (status) {
+      case "inherited": {
+        const inherited = matcher.findMethodPair(
+          className,
+          methodName,
+          sdkName
+        )!.inherited!;
+        return `Inherited in the ${
+          inherited.sdkName === "ts" ? "TypeScript" : "Python"
+        } SDK from ${inherited.owner.name}`;
+      }
       case "both":
-        return `Implemented in both SDKs\nTS: ${tsClass?.file}\nPython: ${pythonClass?.file}`;
+        return "Implemented in both SDKs";
+      case "signature-mismatch":
+        return "Implemented in both SDKs with different signatures";
+      case "kind-mismatch": {
+        const { ts, python } = matcher.findMethodPair(
+          className,
+          methodName,
+          sdkName
+        )!;
+        const shapes = getKindMismatch(ts!, python!)!;
+        return `A ${SHAPE_LABELS[shapes.ts]} in TypeScript but a ${
+          SHAPE_LABELS[shapes.python]
+        } in Python`;
+      }
+      case "async-mismatch": {
+        const { ts } = matcher.findMethodPair(className, methodName, sdkName)!;
+        return isAsyncMethod(ts!, "ts")
+          ? "Async in TypeScript but synchronous in Python"
+          : "Async in Python but synchronous in TypeScript";
+      }
       case "ts-only":
-        return `Only in TypeScript SDK\nFile: ${tsClass?.file}`;
+        return "Only in TypeScript SDK";
       case "python-only":
-        return `Only in Python SDK\nFile: ${pythonClass?.file}`;
+        return "Only in Python SDK";
       default:
-        return `Not found in either SDK`;
+        return "Class is only in one SDK";
     }
   };
 
+  // Opens the hover card next to `row`; hovering waits a moment so that
+  // moving the mouse across the list doesn't flash cards, focusing doesn't
+  const openHoverCard = (
+    row: HTMLElement,
+    className: string,
+    methodName: string,
+    sdkName: SDKName,
+    delay: number
+  ) => {
+    clearTimeout(hoverCardTimeoutRef.current);
+    hoverCardTimeoutRef.current = setTimeout(() => {
+      const rect = row.getBoundingClientRect();
+      const hasRoomBelow = rect.bottom < window.innerHeight * 0.6;
+      setHoverCard({
+        className,
+        methodName,
+        sdkName,
+        position: {
+          ...(hasRoomBelow
+            ? { top: rect.bottom + 4 }
+            : { bottom: window.innerHeight - rect.top + 4 }),
+          left: Math.max(4, Math.min(rect.left, window.innerWidth - 644)),
+        },
+      });
+    }, delay);
+  };
+
+  const closeHoverCard = () => {
+    clearTimeout(hoverCardTimeoutRef.current);
+    setHoverCard(null);
+  };
+
+  const renderMethodHoverCard = () => {
+    if (!hoverCard) return null;
+    const { className, methodName, sdkName, position } = hoverCard;
+    const methodPair = matcher.findMethodPair(className, methodName, sdkName);
+    const getSide = (side: SDKName): HoverCardSide | undefined => {
+      const sdkClass = (side === "ts" ? tsClassesMap : pythonClassesMap).get(
+        className
+      );
+      const method =
+        side === sdkName
+          ? sdkClass &&
+            foldAccessors(sdkClass.methods).find((m) => m.name === methodName)
+          : methodPair?.[side];
+      if (!sdkClass || !method) return undefined;
+      return {
+        method,
+        file: getMethodFile(sdkClass, side, methodPair),
+        inheritedFrom:
+          methodPair?.inherited?.sdkName === side
+            ? methodPair.inherited.owner.name
+            : undefined,
+      };
+    };
+    return (
+      <MethodHoverCard
+        id="method-hover-card"
+        title={`${className}.${methodName}`}
+        ts={getSide("ts")}
+        python={getSide("python")}
+        status={{
+          icon: renderMethodIcon(className, methodName, sdkName),
+          label: getMethodStatusLabel(className, methodName, sdkName),
+        }}
+        position={position}
+      />
+    );
+  };
+
   const getClassTooltip = (
     className: string,
     tsClass: Class | undefined,
@@ -805,10 +1330,9 @@ export default function SDKComparison({
       return "Missing in both SDKs";
     }
 
-    const tsMethodCount = tsClass.methods.filter(
-      (m) => m.name !== "constructor"
-    ).length;
-    const pythonMethodCount = pythonClass.methods.length;
+    const tsMethodCount = countVisibleMethods(tsClass, "ts");
+
+    const pythonMethodCount = countVisibleMethods(pythonClass, "python");
 
     if (tsMethodCount === pythonMethodCount) {
       return `Same method count (${tsMethodCount})\nTS: ${tsClass.file}\nPython: ${pythonClass.file}`;
@@ -823,16 +1347,184 @@ export default function SDKComparison({
     }
   };
 
+  const renderCodeSnippet = (key: string) => (
+    <div className="ml-4 mb-2">
+      {loadingSnippets.has(key) ? (
+        <div className="text-sm text-gray-500 py-2">
+          Loading code snippet...
+        </div>
+      ) : codeSnippets.has(key) ? (
+        <div className="mt-1">
+          <pre className="bg-black p-2 rounded text-xs overflow-x-auto border">
+            <code
+              className={`language-${codeSnippets.get(key)?.language}`}
+              dangerouslySetInnerHTML={{
+                __html: highlightCode(
+                  getExpandedSnippetContent(key),
+                  codeSnippets.get(key)?.language || ""
+                ),
+              }}
+            />
+          </pre>
+          <div className="flex justify-center mt-1">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleSnippetExpansion(key);
+              }}
+              className="bg-[#C0C0C0] border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] px-2 py-1 text-xs text-black hover:bg-[#D0D0D0] active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF]"
+              style={{
+                fontFamily: "MS Sans Serif, sans-serif",
+              }}
+            >
+              {expandedSnippets.has(key)
+                ? "Show fewer lines"
+                : "Show more lines"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+
+  // Which upstream revision each dump was extracted from
+  const renderRevisionBadge = (sdkName: SDKName) => {
+    const meta = getDumpMeta(sdkName);
+    const ref = getSourceRef(meta);
+    const label = sdkName === "ts" ? "protocol-v2" : "driftpy";
+    return (
+      <a
+        href={getSourceRootUrl(sdkName, meta)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="bg-[#C0C0C0] border border-t-[#808080] border-l-[#808080] border-r-[#FFFFFF] border-b-[#FFFFFF] px-2 py-0.5 text-xs text-black font-mono hover:bg-[#D0D0D0]"
+        title={
+          meta
+            ? `${meta.repo} at ${ref}, extracted ${meta.generatedAt} by ${meta.tool} (${meta.toolVersion})`
+            : "This dump has no metadata; links use the default branch"
+        }
+      >
+        {label} @ {meta?.commit ? meta.commit.slice(0, 7) : `${ref}?`}
+      </a>
+    );
+  };
+
+  const renderParityBar = (parity: Parity, heightClass = "h-2") => (
+    <div
+      className={`w-full bg-white border border-t-[#808080] border-l-[#808080] border-r-[#FFFFFF] border-b-[#FFFFFF] ${heightClass}`}
+    >
+      <div
+        className="h-full bg-[#000080]"
+        style={{ width: `${parity.ratio * 100}%` }}
+      />
+    </div>
+  );
+
+  const renderSignatureDiff = (tsMethod: Method, pythonMethod: Method) => {
+    const diff = diffSignatures(tsMethod, pythonMethod);
+    const rows = [
+      ...diff.missingParameters.map((parameter) => ({
+        ...parameter,
+        issue: "Missing in Python",
+      })),
+      ...diff.extraParameters.map((parameter) => ({
+        ...parameter,
+        issue: "Only in Python",
+      })),
+      ...diff.typeMismatches.map((parameter) => ({
+        ...parameter,
+        issue: "Type differs",
+      })),
+    ];
+
+    return (
+      <div className="ml-4 mb-2 mt-1 bg-white border-2 border-gray-400">
+        {!hasSignatureMismatch(diff) ? (
+          <div className="text-xs text-green-700 p-2">
+            Signatures match ({tsMethod.name} ↔ {pythonMethod.name})
+          </div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="bg-[#E0E0E0] border-b border-gray-300">
+                <th className="border-r border-gray-300 px-2 py-1 text-left font-bold">
+                  Parameter
+                </th>
+                <th className="border-r border-gray-300 px-2 py-1 text-left font-bold">
+                  💻 TS Type
+                </th>
+                <th className="border-r border-gray-300 px-2 py-1 text-left font-bold">
+                  🐍 Python Type
+                </th>
+                <th className="px-2 py-1 text-left font-bold">Issue</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={`${row.issue}-${row.name}`}
+                  className="border-b border-gray-200"
+                >
+                  <td className="border-r border-gray-300 px-2 py-1 font-mono">
+                    {row.name}
+                  </td>
+                  <td className="border-r border-gray-300 px-2 py-1 font-mono text-blue-700">
+                    {row.tsType || "—"}
+                  </td>
+                  <td className="border-r border-gray-300 px-2 py-1 font-mono text-green-700">
+                    {row.pythonType || "—"}
+                  </td>
+                  <td className="px-2 py-1">{row.issue}</td>
+                </tr>
+              ))}
+              {diff.returnMismatch && (
+                <tr className="border-b border-gray-200">
+                  <td className="border-r border-gray-300 px-2 py-1 font-mono">
+                    (return)
+                  </td>
+                  <td className="border-r border-gray-300 px-2 py-1 font-mono text-blue-700">
+                    {diff.returnMismatch.tsType || "—"}
+                  </td>
+                  <td className="border-r border-gray-300 px-2 py-1 font-mono text-green-700">
+                    {diff.returnMismatch.pythonType || "—"}
+                  </td>
+                  <td className="px-2 py-1">Return type differs</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    );
+  };
+
   // Render a class card
   const renderClassCard = (
     className: string,
     sdkClass: Class | undefined,
-    sdkName: string,
+    sdkName: SDKName,
     isLeft: boolean
   ) => {
     const isExpanded = expandedClasses.has(className);
     const tsClass = tsClassesMap.get(className);
     const pythonClass = pythonClassesMap.get(className);
+    // Parity is measured against TS, so Python-only classes have none
+    const classParity = tsClass
+      ? getClassParity(matcher, className, parityWeighting)
+      : undefined;
+    const moduleMismatch =
+      tsClass && pythonClass
+        ? getModuleMismatch(tsClass, pythonClass)
+        : undefined;
+    const inheritance = matcher.getInheritance(className)[sdkName];
+    // A base outside the dump only matters if this side lacks methods it
+    // might define
+    const unresolvedBases =
+      tsClass &&
+      pythonClass &&
+      matcher.getMethodPairs(className).some((pair) => !pair[sdkName])
+        ? inheritance?.unresolvedBases || []
+        : [];
 
     // Determine comparison status
     const getComparisonIcon = () => {
@@ -852,10 +1544,9 @@ export default function SDKComparison({
         );
       }
 
-      const tsMethodCount = tsClass.methods.filter(
-        (m) => m.name !== "constructor"
-      ).length;
-      const pythonMethodCount = pythonClass.methods.length;
+      const tsMethodCount = countVisibleMethods(tsClass, "ts");
+
+      const pythonMethodCount = countVisibleMethods(pythonClass, "python");
 
       if (tsMethodCount === pythonMethodCount) {
         return (
@@ -900,10 +1591,9 @@ export default function SDKComparison({
         return "Missing in one SDK";
       }
 
-      const tsMethodCount = tsClass.methods.filter(
-        (m) => m.name !== "constructor"
-      ).length;
-      const pythonMethodCount = pythonClass.methods.length;
+      const tsMethodCount = countVisibleMethods(tsClass, "ts");
+
+      const pythonMethodCount = countVisibleMethods(pythonClass, "python");
 
       if (tsMethodCount === pythonMethodCount) {
         return `Same method count (${tsMethodCount})`;
@@ -939,30 +1629,52 @@ export default function SDKComparison({
                 <div className="flex items-center space-x-1">
                   {getComparisonIcon()}
                 </div>
+                {moduleMismatch && (
+                  <span
+                    className="text-xs bg-yellow-100 border border-yellow-400 px-1 text-gray-700"
+                    title={`TS: ${moduleMismatch.ts || "(root)"} · Python: ${
+                      moduleMismatch.python || "(root)"
+                    }. Add a rule to src/data/path-mappings.json if the modules do correspond.`}
+                  >
+                    ⚠ Different module
+                  </span>
+                )}
+                {inheritance?.cycle && (
+                  <span
+                    className="text-xs bg-red-100 border border-red-400 px-1 text-gray-700"
+                    title={`${inheritance.cycle.join(
+                      " → "
+                    )}. Base classes past the loop aren't searched for inherited methods.`}
+                  >
+                    ⚠ Inheritance cycle
+                  </span>
+                )}
+                {unresolvedBases.length > 0 && (
+                  <span
+                    className="text-xs bg-yellow-100 border border-yellow-400 px-1 text-gray-700"
+                    title={`Extends ${unresolvedBases.join(
+                      ", "
+                    )}, which isn't in the dump. Methods missing here may be inherited from it.`}
+                  >
+                    ⚠ External base
+                  </span>
+                )}
               </div>
               <div className="flex flex-row sm:flex-row items-start space-y-1 sm:space-y-0 sm:space-x-1 w-full sm:w-auto">
                 <span className="text-xs text-gray-500">
-                  {sdkName === "ts"
-                    ? `${
-                        sdkClass.methods.filter((m) => m.name !== "constructor")
-                          .length
-                      } methods`
-                    : `${sdkClass.methods.length} methods`}
+                  {countVisibleMethods(sdkClass, sdkName)} methods
                 </span>
                 <div className="flex flex-col items-end space-y-0.5">
                   <div className="flex items-center space-x-1">
                     <a
-                      href={`https://github.com/drift-labs/${
-                        sdkName === "ts" ? "protocol-v2" : "driftpy"
-                      }/tree/master/${
-                        sdkName === "ts" ? "sdk/src" : "src/driftpy"
-                      }/${getCleanFilePath(sdkClass.file, sdkName)}#L${
-                        sdkClass.startLine || sdkClass.line || 1
-                      }`}
+                      href={getSourceUrl(
+                        sdkClass.file,
+                        sdkName,
+                        sdkClass.startLine,
+                        getDumpMeta(sdkName)
+                      )}
                       className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
-                      title={`Open ${sdkClass.file} at line ${
-                        sdkClass.startLine || sdkClass.line || 1
-                      }`}
+                      title={`Open ${sdkClass.file} at line ${sdkClass.startLine}`}
                       target="_blank"
                       rel="noopener noreferrer"
                       onClick={(e) => e.stopPropagation()}
@@ -982,7 +1694,7 @@ export default function SDKComparison({
                     </button>
                   </div>
                   <span className="text-xs text-gray-500">
-                    Line {sdkClass.startLine || sdkClass.line || 1}
+                    Line {sdkClass.startLine}
                   </span>
                 </div>
                 <svg
@@ -1003,6 +1715,22 @@ export default function SDKComparison({
               </div>
             </div>
 
+            {classParity && (
+              <div
+                className="flex items-center gap-2 px-2 pb-2"
+                title={`${Math.round(classParity.ported)} of ${Math.round(
+                  classParity.total
+                )} ${
+                  parityWeighting === "lines" ? "lines" : accessedMethods
+                } ported`}
+              >
+                {renderParityBar(classParity)}
+                <span className="text-xs text-gray-600 w-12 text-right">
+                  {formatParity(classParity)}
+                </span>
+              </div>
+            )}
+
             {isExpanded && (
               <div className="px-2 pb-2 space-y-0.5">
                 <div className="flex gap-2 mb-2">
@@ -1039,171 +1767,257 @@ export default function SDKComparison({
                       : "Sort by Length"}
                   </button>
                 </div>
-                {getSortedMethods(sdkClass, sdkName).map((method) => {
-                  const tsClass = tsClassesMap.get(className);
-                  const pythonClass = pythonClassesMap.get(className);
-                  const normalizedMethodName = getNormalizedMethodName(
-                    method.name,
-                    sdkName
-                  );
-
-                  return (
-                    <div key={method.name}>
+                {getSortedMethods(className, sdkClass, sdkName).map(
+                  (method) => {
+                    const normalizedMethodName = getNormalizedMethodName(
+                      className,
+                      method.name,
+                      sdkName
+                    );
+                    const { tsMethod, pythonMethod, inherited } =
+                      findMethodPair(className, method.name, sdkName);
+                    const diffKey = `${sdkName}-${className}-${method.name}`;
+                    // e.g. get/set for a getter with its setter folded in
+                    const setter = findSetter(sdkClass.methods, method);
+                    const kindLabel = [
+                      getKindLabel(method),
+                      setter && getKindLabel(setter),
+                    ]
+                      .filter(Boolean)
+                      .join("/");
+                    const suggestions =
+                      tsMethod && pythonMethod
+                        ? []
+                        : getMatchSuggestions(className, method, sdkName);
+
+                    return (
                       <div
-                        className="method-item flex items-center space-x-2 text-sm px-2 py-1 rounded cursor-pointer text-gray-700"
-                        data-method-name={normalizedMethodName}
-                        onMouseEnter={(e) => {
-                          // Add highlighted class to all methods with the same name
-                          const methodName = e.currentTarget.dataset.methodName;
-                          document
-                            .querySelectorAll(
-                              `[data-method-name="${methodName}"]`
-                            )
-                            .forEach((el) => {
-                              el.classList.add("highlighted");
-                            });
-                        }}
-                        onMouseLeave={(e) => {
-                          // Remove highlighted class from all methods with the same name
-                          const methodName = e.currentTarget.dataset.methodName;
-                          document
-                            .querySelectorAll(
-                              `[data-method-name="${methodName}"]`
-                            )
-                            .forEach((el) => {
-                              el.classList.remove("highlighted");
-                            });
-                        }}
+                        key={method.name}
+                        id={getMethodAnchor({
+                          sdkName,
+                          className,
+                          methodName: method.name,
+                        })}
                       >
-                        <div className="flex items-center space-x-1">
-                          {renderMethodIcon(
-                            method.name,
-                            tsClass,
-                            pythonClass,
-                            sdkName
-                          )}
-                        </div>
-                        <span className="flex-1">
-                          {method.name}
-                          {method.startLine && method.endLine && (
-                            <span className="text-gray-500 ml-1">
-                              ({method.endLine - method.startLine + 1} lines)
-                            </span>
-                          )}
-                        </span>
-                        <div className="flex flex-col items-end space-y-0.5">
-                          <div className="flex items-center space-x-1">
-                            <a
-                              href={`https://github.com/drift-labs/${
-                                sdkName === "ts" ? "protocol-v2" : "driftpy"
-                              }/tree/master/${
-                                sdkName === "ts" ? "sdk/src" : "src/driftpy"
-                              }/${getCleanFilePath(sdkClass.file, sdkName)}#L${
-                                method.startLine || method.line || 1
-                              }`}
-                              className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
-                              title={`Open ${sdkClass.file} at line ${
-                                method.startLine || method.line || 1
-                              }`}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              {sdkClass.file}
-                            </a>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                const key = `${sdkName}-${className}-${method.name}`;
-                                toggleCodeSnippet(
-                                  key,
-                                  sdkClass.file,
-                                  method.startLine || method.line || 1,
-                                  method.endLine || method.line || 1,
-                                  sdkName,
-                                  className,
-                                  method.name
-                                );
-                              }}
-                              className="bg-[#C0C0C0] border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] px-2 py-1 text-xs text-black hover:bg-[#D0D0D0] active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF]"
-                              title="Show code snippet"
-                              style={{
-                                fontFamily: "MS Sans Serif, sans-serif",
-                              }}
-                            >
-                              {loadingSnippets.has(
-                                `${sdkName}-${className}-${method.name}`
+                        <div
+                          className="method-item flex items-center space-x-2 text-sm px-2 py-1 rounded cursor-pointer text-gray-700"
+                          data-method-name={normalizedMethodName}
+                          tabIndex={0}
+                          aria-describedby={
+                            hoverCard?.sdkName === sdkName &&
+                            hoverCard.className === className &&
+                            hoverCard.methodName === method.name
+                              ? "method-hover-card"
+                              : undefined
+                          }
+                          onMouseEnter={(e) => {
+                            // Add highlighted class to all methods with the same name
+                            const methodName =
+                              e.currentTarget.dataset.methodName;
+                            document
+                              .querySelectorAll(
+                                `[data-method-name="${methodName}"]`
                               )
-                                ? "..."
-                                : "View"}
-                            </button>
+                              .forEach((el) => {
+                                el.classList.add("highlighted");
+                              });
+                            openHoverCard(
+                              e.currentTarget,
+                              className,
+                              method.name,
+                              sdkName,
+                              400
+                            );
+                          }}
+                          onMouseLeave={(e) => {
+                            // Remove highlighted class from all methods with the same name
+                            const methodName =
+                              e.currentTarget.dataset.methodName;
+                            document
+                              .querySelectorAll(
+                                `[data-method-name="${methodName}"]`
+                              )
+                              .forEach((el) => {
+                                el.classList.remove("highlighted");
+                              });
+                            closeHoverCard();
+                          }}
+                          // Only the row itself, not its buttons, opens the card
+                          onFocus={(e) => {
+                            if (e.target === e.currentTarget) {
+                              openHoverCard(
+                                e.currentTarget,
+                                className,
+                                method.name,
+                                sdkName,
+                                0
+                              );
+                            }
+                          }}
+                          onBlur={closeHoverCard}
+                          onKeyDown={(e) => {
+                            if (e.key === "Escape") closeHoverCard();
+                          }}
+                        >
+                          <div className="flex items-center space-x-1">
+                            {renderMethodIcon(className, method.name, sdkName)}
                           </div>
-                          <span className="text-xs text-gray-500">
-                            Line {method.startLine || method.line || 1}
+                          <span className="flex-1">
+                            {method.name}
+                            {kindLabel && (
+                              <span className="ml-1 bg-[#C0C0C0] border border-gray-500 px-1 font-mono text-xs text-black">
+                                {kindLabel}
+                              </span>
+                            )}
+                            {method.startLine && method.endLine && (
+                              <span className="text-gray-500 ml-1">
+                                ({method.endLine - method.startLine + 1} lines)
+                              </span>
+                            )}
                           </span>
-                        </div>
-                      </div>
-
-                      {expandedCodeSnippets.has(
-                        `${sdkName}-${className}-${method.name}`
-                      ) && (
-                        <div className="ml-4 mb-2">
-                          {loadingSnippets.has(
-                            `${sdkName}-${className}-${method.name}`
-                          ) ? (
-                            <div className="text-sm text-gray-500 py-2">
-                              Loading code snippet...
-                            </div>
-                          ) : codeSnippets.has(
-                              `${sdkName}-${className}-${method.name}`
-                            ) ? (
-                            <div className="mt-1">
-                              <pre className="bg-black p-2 rounded text-xs overflow-x-auto border">
-                                <code
-                                  className={`language-${
-                                    codeSnippets.get(
-                                      `${sdkName}-${className}-${method.name}`
-                                    )?.language
+                          <div className="flex flex-col items-end space-y-0.5">
+                            <div className="flex items-center space-x-1">
+                              <a
+                                href={getSourceUrl(
+                                  sdkClass.file,
+                                  sdkName,
+                                  method.startLine,
+                                  getDumpMeta(sdkName)
+                                )}
+                                className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
+                                title={`Open ${sdkClass.file} at line ${method.startLine}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                {sdkClass.file}
+                              </a>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  const key = `${sdkName}-${className}-${method.name}`;
+                                  toggleCodeSnippet(
+                                    key,
+                                    sdkClass.file,
+                                    method.startLine,
+                                    method.endLine,
+                                    sdkName,
+                                    className,
+                                    method.name
+                                  );
+                                }}
+                                className="bg-[#C0C0C0] border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] px-2 py-1 text-xs text-black hover:bg-[#D0D0D0] active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF]"
+                                title="Show code snippet"
+                                style={{
+                                  fontFamily: "MS Sans Serif, sans-serif",
+                                }}
+                              >
+                                {loadingSnippets.has(
+                                  `${sdkName}-${className}-${method.name}`
+                                )
+                                  ? "..."
+                                  : "View"}
+                              </button>
+                              {tsMethod && pythonMethod && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    toggleSignatureDiff(diffKey);
+                                  }}
+                                  className={`border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] px-2 py-1 text-xs text-black hover:bg-[#D0D0D0] active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF] ${
+                                    expandedSignatureDiffs.has(diffKey)
+                                      ? "bg-[#D0D0D0]"
+                                      : "bg-[#C0C0C0]"
                                   }`}
-                                  dangerouslySetInnerHTML={{
-                                    __html: highlightCode(
-                                      getExpandedSnippetContent(
-                                        `${sdkName}-${className}-${method.name}`
-                                      ),
-                                      codeSnippets.get(
-                                        `${sdkName}-${className}-${method.name}`
-                                      )?.language || ""
-                                    ),
+                                  title="Compare signatures"
+                                  style={{
+                                    fontFamily: "MS Sans Serif, sans-serif",
                                   }}
-                                />
-                              </pre>
-                              <div className="flex justify-center mt-1">
+                                >
+                                  Sig
+                                </button>
+                              )}
+                              {tsMethod && pythonMethod && (
                                 <button
                                   onClick={(e) => {
                                     e.stopPropagation();
-                                    toggleSnippetExpansion(
-                                      `${sdkName}-${className}-${method.name}`
+                                    openMethodDiff(
+                                      className,
+                                      tsMethod,
+                                      pythonMethod,
+                                      inherited
                                     );
                                   }}
                                   className="bg-[#C0C0C0] border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] px-2 py-1 text-xs text-black hover:bg-[#D0D0D0] active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF]"
+                                  title="Compare method bodies side by side"
                                   style={{
                                     fontFamily: "MS Sans Serif, sans-serif",
                                   }}
                                 >
-                                  {expandedSnippets.has(
-                                    `${sdkName}-${className}-${method.name}`
-                                  )
-                                    ? "Show fewer lines"
-                                    : "Show more lines"}
+                                  Diff
                                 </button>
-                              </div>
+                              )}
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  copyMethodLink({
+                                    sdkName,
+                                    className,
+                                    methodName: method.name,
+                                  });
+                                }}
+                                className="bg-[#C0C0C0] border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] px-2 py-1 text-xs text-black hover:bg-[#D0D0D0] active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF]"
+                                title="Copy link to this method"
+                                style={{
+                                  fontFamily: "MS Sans Serif, sans-serif",
+                                }}
+                              >
+                                {copiedLink === diffKey ? "Copied" : "Link"}
+                              </button>
                             </div>
-                          ) : null}
+                            <span className="text-xs text-gray-500">
+                              Line {method.startLine}
+                            </span>
+                          </div>
                         </div>
-                      )}
-                    </div>
-                  );
-                })}
+
+                        {suggestions.length > 0 && (
+                          <div className="ml-6 mb-1 flex flex-wrap items-center gap-1 text-xs text-gray-500">
+                            <span>Possible match:</span>
+                            {suggestions.map((suggestion) => (
+                              <span
+                                key={suggestion.method.name}
+                                className="bg-yellow-100 border border-yellow-400 px-1 font-mono text-gray-700"
+                                title={`Name ${Math.round(
+                                  suggestion.nameScore * 100
+                                )}% · Parameters ${Math.round(
+                                  suggestion.parameterScore * 100
+                                )}% · Lines ${Math.round(
+                                  suggestion.lengthScore * 100
+                                )}%`}
+                              >
+                                {suggestion.method.name} (
+                                {Math.round(suggestion.score * 100)}%)
+                              </span>
+                            ))}
+                          </div>
+                        )}
+
+                        {tsMethod &&
+                          pythonMethod &&
+                          expandedSignatureDiffs.has(diffKey) &&
+                          renderSignatureDiff(tsMethod, pythonMethod)}
+
+                        {expandedCodeSnippets.has(
+                          `${sdkName}-${className}-${method.name}`
+                        ) &&
+                          renderCodeSnippet(
+                            `${sdkName}-${className}-${method.name}`
+                          )}
+                      </div>
+                    );
+                  }
+                )}
                 {sdkName === "ts" &&
                   sdkClass.methods.some((m) => m.name === "constructor") && (
                     <div className="flex items-center space-x-2 text-sm text-gray-400 italic px-2 py-1 rounded">
@@ -1262,6 +2076,184 @@ export default function SDKComparison({
     }
   };
 
+  // Render a module card listing its top-level functions
+  const renderFunctionModuleCard = (
+    module: string,
+    pairs: FunctionPair[],
+    sdkName: string
+  ) => {
+    const moduleKey = `fn:${module}`;
+    const isExpanded = expandedClasses.has(moduleKey);
+    const sdkPairs = pairs.filter((pair) =>
+      sdkName === "ts" ? pair.ts : pair.python
+    );
+    const commonCount = pairs.filter((pair) => pair.ts && pair.python).length;
+
+    if (sdkPairs.length === 0) {
+      return (
+        <div className="mb-2" key={`${sdkName}-${moduleKey}`}>
+          <div
+            className={`border-2 border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] shadow-[inset_1px_1px_0px_#808080,inset_-1px_-1px_0px_#FFFFFF] h-[60px] flex flex-col ${
+              hoveredClass === moduleKey ? "bg-gray-200" : ""
+            }`}
+          >
+            <div
+              className="p-2 flex-1 flex flex-col justify-center"
+              onMouseEnter={() => setHoveredClass(moduleKey)}
+              onMouseLeave={() => setHoveredClass(null)}
+            >
+              <h3
+                className="text-sm font-semibold text-gray-600"
+                style={{ fontFamily: "MS Sans Serif, sans-serif" }}
+              >
+                {module}
+              </h3>
+              <div className="text-sm text-gray-400 italic">
+                No functions in {sdkName === "ts" ? "TypeScript" : "Python"}
+              </div>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="mb-2" key={`${sdkName}-${moduleKey}`}>
+        <div
+          className={`border-2 border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] shadow-[inset_1px_1px_0px_#808080,inset_-1px_-1px_0px_#FFFFFF] ${
+            hoveredClass === moduleKey ? "bg-gray-200" : ""
+          }`}
+        >
+          <div
+            className="flex items-center justify-between p-2 hover:bg-[#C0C0C0] min-h-[60px] gap-1"
+            onMouseEnter={() => setHoveredClass(moduleKey)}
+            onMouseLeave={() => setHoveredClass(null)}
+          >
+            <div className="flex items-center space-x-2 flex-1">
+              <h3
+                className="text-sm font-semibold text-black"
+                style={{ fontFamily: "MS Sans Serif, sans-serif" }}
+              >
+                {module}
+              </h3>
+              <span className="text-xs text-gray-500">
+                {sdkPairs.length} functions, {commonCount} common
+              </span>
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleClass(moduleKey);
+              }}
+              className="bg-[#C0C0C0] border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] px-2 py-1 text-xs text-black hover:bg-[#D0D0D0] active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF]"
+              title="Expand/Collapse module"
+              style={{ fontFamily: "MS Sans Serif, sans-serif" }}
+            >
+              {isExpanded ? "Collapse" : "Expand"}
+            </button>
+          </div>
+
+          {isExpanded && (
+            <div className="px-2 pb-2 space-y-0.5">
+              {sdkPairs.map((pair) => {
+                const fn = (sdkName === "ts" ? pair.ts : pair.python)!;
+                const key = `${sdkName}-fn-${pair.key}`;
+
+                return (
+                  <div key={pair.key}>
+                    <div
+                      className="method-item flex items-center space-x-2 text-sm px-2 py-1 rounded cursor-pointer text-gray-700"
+                      data-method-name={`fn:${pair.key}`}
+                      onMouseEnter={(e) => {
+                        const methodName = e.currentTarget.dataset.methodName;
+                        document
+                          .querySelectorAll(
+                            `[data-method-name="${methodName}"]`
+                          )
+                          .forEach((el) => {
+                            el.classList.add("highlighted");
+                          });
+                      }}
+                      onMouseLeave={(e) => {
+                        const methodName = e.currentTarget.dataset.methodName;
+                        document
+                          .querySelectorAll(
+                            `[data-method-name="${methodName}"]`
+                          )
+                          .forEach((el) => {
+                            el.classList.remove("highlighted");
+                          });
+                      }}
+                    >
+                      <div className="flex items-center space-x-1">
+                        {renderStatusIcon(
+                          pair.ts &&
+                            pair.python &&
+                            hasAsyncMismatch(pair.ts, pair.python)
+                            ? "async-mismatch"
+                            : getFunctionPairStatus(pair)
+                        )}
+                      </div>
+                      <span className="flex-1">
+                        {fn.name}
+                        {fn.startLine && fn.endLine && (
+                          <span className="text-gray-500 ml-1">
+                            ({getLineCount(fn)} lines)
+                          </span>
+                        )}
+                      </span>
+                      <div className="flex flex-col items-end space-y-0.5">
+                        <div className="flex items-center space-x-1">
+                          <a
+                            href={getSourceUrl(
+                              fn.file,
+                              sdkName,
+                              fn.startLine,
+                              getDumpMeta(sdkName)
+                            )}
+                            className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
+                            title={`Open ${fn.file} at line ${fn.startLine}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            {fn.file}
+                          </a>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleFunctionSnippet(
+                                pair.ts,
+                                pair.python,
+                                pair.key
+                              );
+                            }}
+                            className="bg-[#C0C0C0] border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] px-2 py-1 text-xs text-black hover:bg-[#D0D0D0] active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF]"
+                            title="Show code snippet"
+                            style={{
+                              fontFamily: "MS Sans Serif, sans-serif",
+                            }}
+                          >
+                            {loadingSnippets.has(key) ? "..." : "View"}
+                          </button>
+                        </div>
+                        <span className="text-xs text-gray-500">
+                          Line {fn.startLine}
+                        </span>
+                      </div>
+                    </div>
+
+                    {expandedCodeSnippets.has(key) && renderCodeSnippet(key)}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div
       className="min-h-screen bg-[#C0C0C0] flex flex-col"
@@ -1313,7 +2305,7 @@ export default function SDKComparison({
                     className="cursor-pointer"
                     onClick={() => {
                       window.open(
-                        "https://github.com/drift-labs/protocol-v2/tree/master/sdk/src",
+                        getSourceRootUrl("ts", tsData.meta),
                         "_blank"
                       );
                     }}
@@ -1329,7 +2321,7 @@ export default function SDKComparison({
                     className="cursor-pointer"
                     onClick={() => {
                       window.open(
-                        "https://github.com/drift-labs/driftpy/tree/master/src/driftpy",
+                        getSourceRootUrl("python", pythonData.meta),
                         "_blank"
                       );
                     }}
@@ -1359,13 +2351,106 @@ export default function SDKComparison({
           THIS SITE
         </a>
       </SparklesText>
+      <div className="flex flex-wrap justify-center gap-2 pt-1">
+        {renderRevisionBadge("ts")}
+        {renderRevisionBadge("python")}
+      </div>
+      <div className="max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 pt-2">
+        <div className="bg-[#C0C0C0] border-2 border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] shadow-[inset_1px_1px_0px_#808080,inset_-1px_-1px_0px_#FFFFFF] p-2">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-2">
+            <h3 className="text-sm font-semibold text-black">
+              driftpy is {formatParity(overallParity)} of the way there
+            </h3>
+            <label className="flex items-center gap-2 text-xs text-black">
+              Weight by:
+              <select
+                value={parityWeighting}
+                onChange={(e) =>
+                  setParityWeighting(e.target.value as ParityWeighting)
+                }
+                className="bg-white border border-t-[#808080] border-l-[#808080] border-r-[#FFFFFF] border-b-[#FFFFFF] px-1 text-xs text-black"
+              >
+                {PARITY_WEIGHTINGS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-xs text-black">
+              Methods:
+              <select
+                value={accessFilter}
+                onChange={(e) => setAccessFilter(e.target.value as Access)}
+                className="bg-white border border-t-[#808080] border-l-[#808080] border-r-[#FFFFFF] border-b-[#FFFFFF] px-1 text-xs text-black"
+              >
+                {ACCESS_FILTERS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {renderParityBar(overallParity, "h-4")}
+          <p className="text-xs text-gray-600 mt-1">
+            {Math.round(overallParity.ported)} of{" "}
+            {Math.round(overallParity.total)}{" "}
+            {parityWeighting === "lines"
+              ? `lines of TS ${accessedMethods}`
+              : `TS ${accessedMethods}`}{" "}
+            have a Python counterpart ·{" "}
+            <a
+              href="/history"
+              className="text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              History
+            </a>{" "}
+            ·{" "}
+            <a
+              href="/changelog"
+              className="text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              Changelog
+            </a>{" "}
+            ·{" "}
+            <a
+              href="/hierarchy"
+              className="text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              Hierarchy
+            </a>{" "}
+            ·{" "}
+            <a
+              href="/documentation"
+              className="text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              Docs
+            </a>
+          </p>
+        </div>
+      </div>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2">
         <div className="relative mb-2">
           <input
+            ref={searchInputRef}
             type="text"
-            placeholder="Search classes and methods..."
+            placeholder="Search classes and methods, e.g. class:User status:ts-only lines:>50"
             value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            onChange={(e) => {
+              setSearchTerm(e.target.value);
+              setSearchCursor(e.target.selectionStart);
+            }}
+            onSelect={(e) => setSearchCursor(e.currentTarget.selectionStart)}
+            onBlur={() => setSearchCursor(null)}
+            onKeyDown={(e) => {
+              if (e.key === "Tab" && searchCompletion) {
+                e.preventDefault();
+                applySearchCompletion(searchCompletion.options[0]);
+              } else if (e.key === "Escape") {
+                setSearchCursor(null);
+              }
+            }}
             className="w-full px-2 py-1 bg-white border-2 border-t-[#808080] border-l-[#808080] border-r-[#FFFFFF] border-b-[#FFFFFF] shadow-[inset_1px_1px_0px_#808080,inset_-1px_-1px_0px_#FFFFFF] text-black text-sm"
             style={{ fontFamily: "MS Sans Serif, sans-serif" }}
           />
@@ -1384,7 +2469,36 @@ export default function SDKComparison({
               />
             </svg>
           </div>
+          {searchCompletion && (
+            <div className="absolute left-0 top-full z-20 bg-white border border-black shadow-[2px_2px_0px_#808080] text-xs text-black">
+              {searchCompletion.options.map((option) => {
+                const field = option.slice(0, option.indexOf(":"));
+                return (
+                  <button
+                    key={option}
+                    // Keep focus in the input so the cursor stays put
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => applySearchCompletion(option)}
+                    className="block w-full text-left px-2 py-0.5 hover:bg-[#000080] hover:text-white"
+                    style={{ fontFamily: "MS Sans Serif, sans-serif" }}
+                  >
+                    <span className="font-mono">{option}</span>
+                    {option.endsWith(":") && (
+                      <span className="text-gray-500 ml-2">
+                        {QUERY_FIELDS[field as QueryField]?.description}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
+        {searchQuery.error && (
+          <div className="text-xs text-red-700 font-mono mb-2 -mt-1">
+            Column {searchQuery.error.position + 1}: {searchQuery.error.message}
+          </div>
+        )}
 
         <div className="flex flex-col sm:flex-row sm:flex-wrap gap-1 sm:gap-2 items-start sm:items-center mb-2">
           <span className="text-xs font-medium text-black">Show:</span>
@@ -1428,6 +2542,22 @@ export default function SDKComparison({
           </label>
         </div>
 
+        <div className="flex flex-wrap gap-1 items-center mb-2">
+          <span className="text-xs font-medium text-black">View:</span>
+          {(["classes", "functions"] as const).map((viewName) => (
+            <button
+              key={viewName}
+              onClick={() => setView(viewName)}
+              className={`border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] px-3 py-1 text-xs text-black hover:bg-[#D0D0D0] active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF] ${
+                view === viewName ? "bg-[#D0D0D0] font-bold" : "bg-[#C0C0C0]"
+              }`}
+              style={{ fontFamily: "MS Sans Serif, sans-serif" }}
+            >
+              {viewName === "classes" ? "Classes" : "Functions"}
+            </button>
+          ))}
+        </div>
+
         <div className="flex justify-center mb-2 gap-2">
           <button
             onClick={() => setShowLeaderboard(!showLeaderboard)}
@@ -1450,8 +2580,37 @@ export default function SDKComparison({
           >
             📊 TS &gt; Python
           </button>
+          <button
+            onClick={() => setShowDirectoryTree(!showDirectoryTree)}
+            className="bg-[#C0C0C0] border border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] px-3 py-1 text-xs text-black hover:bg-[#D0D0D0] active:border-t-[#808080] active:border-l-[#808080] active:border-r-[#FFFFFF] active:border-b-[#FFFFFF]"
+            style={{ fontFamily: "MS Sans Serif, sans-serif" }}
+          >
+            📁 Directories
+          </button>
         </div>
 
+        {showDirectoryTree && (
+          <div className="mb-4 bg-white border-2 border-gray-400 shadow-lg">
+            <div className="bg-[#C0C0C0] border-b border-gray-400 p-2">
+              <h3
+                className="text-sm font-bold text-black"
+                style={{ fontFamily: "MS Sans Serif, sans-serif" }}
+              >
+                📁 Parity by Directory
+              </h3>
+            </div>
+            <div className="overflow-x-auto">
+              <DirectoryTree
+                root={directoryTree}
+                selectedPath={getQueryFieldValue(searchTerm, "dir") || ""}
+                onSelect={(path) =>
+                  setSearchTerm(setQueryField(searchTerm, "dir", path))
+                }
+              />
+            </div>
+          </div>
+        )}
+
         {showLeaderboard && (
           <div className="mb-4 bg-white border-2 border-gray-400 shadow-lg">
             <div className="bg-[#C0C0C0] border-b border-gray-400 p-2">
@@ -1732,11 +2891,27 @@ export default function SDKComparison({
             </svg>
             <span>Missing in one SDK</span>
           </div>
+          <div className="flex items-center space-x-1">
+            {renderStatusIcon("signature-mismatch")}
+            <span>Signature mismatch</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            {renderStatusIcon("kind-mismatch")}
+            <span>Kind mismatch (e.g. static vs instance)</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            {renderStatusIcon("async-mismatch")}
+            <span>Async in one SDK only</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            {renderStatusIcon("inherited")}
+            <span>Inherited from a base class</span>
+          </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-1">
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-2 items-center justify-center">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-8 gap-2 items-center justify-center">
           <div className="bg-[#C0C0C0] border-2 border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] shadow-[inset_1px_1px_0px_#808080,inset_-1px_-1px_0px_#FFFFFF] p-2">
             <h3 className="text-sm font-semibold text-black">TypeScript SDK</h3>
             <p className="text-black text-xs">
@@ -1753,11 +2928,8 @@ export default function SDKComparison({
             <h3 className="text-sm font-semibold text-black">TS w/ Methods</h3>
             <p className="text-black text-xs">
               {
-                tsData.classes.filter(
-                  (cls) =>
-                    cls.methods.filter((m) => m.name !== "constructor").length >
-                    0
-                ).length
+                tsData.classes.filter((cls) => countVisibleMethods(cls, "ts"))
+                  .length
               }{" "}
               classes
             </p>
@@ -1768,8 +2940,9 @@ export default function SDKComparison({
             </h3>
             <p className="text-black text-xs">
               {
-                pythonData.classes.filter((cls) => cls.methods.length > 0)
-                  .length
+                pythonData.classes.filter((cls) =>
+                  countVisibleMethods(cls, "python")
+                ).length
               }{" "}
               classes
             </p>
@@ -1785,6 +2958,36 @@ export default function SDKComparison({
               classes
             </p>
           </div>
+          <div className="bg-[#C0C0C0] border-2 border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] shadow-[inset_1px_1px_0px_#808080,inset_-1px_-1px_0px_#FFFFFF] p-2">
+            <h3 className="text-sm font-semibold text-black">
+              Common Functions
+            </h3>
+            <p className="text-black text-xs">
+              {
+                functionModules
+                  .flatMap(({ pairs }) => pairs)
+                  .filter((pair) => pair.ts && pair.python).length
+              }{" "}
+              of {tsData.functions?.length || 0} TS functions
+            </p>
+          </div>
+          <div className="bg-[#C0C0C0] border-2 border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] shadow-[inset_1px_1px_0px_#808080,inset_-1px_-1px_0px_#FFFFFF] p-2">
+            <h3 className="text-sm font-semibold text-black">
+              Async Mismatches
+            </h3>
+            <p className="text-black text-xs">
+              {asyncMismatches.methods} methods · {asyncMismatches.functions}{" "}
+              functions{" "}
+              <button
+                className="underline text-blue-800"
+                onClick={() =>
+                  setSearchTerm(setQueryField(searchTerm, "mismatch", "async"))
+                }
+              >
+                show
+              </button>
+            </p>
+          </div>
           <div className="bg-[#C0C0C0] border-2 border-t-[#FFFFFF] border-l-[#FFFFFF] border-r-[#808080] border-b-[#808080] shadow-[inset_1px_1px_0px_#808080,inset_-1px_-1px_0px_#FFFFFF] p-2">
             <h3 className="text-sm font-semibold text-black">Unique Classes</h3>
             <p className="text-black text-xs">
@@ -1823,19 +3026,32 @@ export default function SDKComparison({
               )
             }
           >
-            {filteredClassNames.map((className, index) => (
-              <div
-                key={`ts-${className}`}
-                className={index % 2 === 0 ? "bg-[#C0C0C0]" : "bg-[#D0D0D0]"}
-              >
-                {renderClassCard(
-                  className,
-                  tsClassesMap.get(className),
-                  "ts",
-                  true
-                )}
-              </div>
-            ))}
+            {view === "classes"
+              ? filteredClassNames.map((className, index) => (
+                  <div
+                    key={`ts-${className}`}
+                    className={
+                      index % 2 === 0 ? "bg-[#C0C0C0]" : "bg-[#D0D0D0]"
+                    }
+                  >
+                    {renderClassCard(
+                      className,
+                      tsClassesMap.get(className),
+                      "ts",
+                      true
+                    )}
+                  </div>
+                ))
+              : filteredFunctionModules.map(({ module, pairs }, index) => (
+                  <div
+                    key={`ts-fn-${module}`}
+                    className={
+                      index % 2 === 0 ? "bg-[#C0C0C0]" : "bg-[#D0D0D0]"
+                    }
+                  >
+                    {renderFunctionModuleCard(module, pairs, "ts")}
+                  </div>
+                ))}
           </div>
         </div>
 
@@ -1861,22 +3077,37 @@ export default function SDKComparison({
               )
             }
           >
-            {filteredClassNames.map((className, index) => (
-              <div
-                key={`python-${className}`}
-                className={index % 2 === 0 ? "bg-[#C0C0C0]" : "bg-[#D0D0D0]"}
-              >
-                {renderClassCard(
-                  className,
-                  pythonClassesMap.get(className),
-                  "python",
-                  false
-                )}
-              </div>
-            ))}
+            {view === "classes"
+              ? filteredClassNames.map((className, index) => (
+                  <div
+                    key={`python-${className}`}
+                    className={
+                      index % 2 === 0 ? "bg-[#C0C0C0]" : "bg-[#D0D0D0]"
+                    }
+                  >
+                    {renderClassCard(
+                      className,
+                      pythonClassesMap.get(className),
+                      "python",
+                      false
+                    )}
+                  </div>
+                ))
+              : filteredFunctionModules.map(({ module, pairs }, index) => (
+                  <div
+                    key={`python-fn-${module}`}
+                    className={
+                      index % 2 === 0 ? "bg-[#C0C0C0]" : "bg-[#D0D0D0]"
+                    }
+                  >
+                    {renderFunctionModuleCard(module, pairs, "python")}
+                  </div>
+                ))}
           </div>
         </div>
       </div>
+      {renderMethodDiff()}
+      {renderMethodHoverCard()}
     </div>
   );
 }
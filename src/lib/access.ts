@@ -0,0 +1,77 @@
+import defaultAccessRules from "@/data/access-rules.json";
+import type { Method } from "./sdk";
+
+export type Access = "public" | "protected" | "private";
+
+// How visible a method is. Python has no access modifiers, so its methods are
+// classified by name: the first rule whose pattern matches wins, and names
+// matching none keep the access in the dump. TS methods keep the modifier
+// they were declared with, remapped through `ts`, where `#private` is for
+// ECMAScript private names like `#cache`.
+export interface AccessRules {
+  python: Array<{ pattern: string; access: Access }>;
+  ts: Record<"private" | "#private" | "protected", Access>;
+}
+
+// The least visible members the comparison includes, so "protected" means
+// public and protected members
+export const ACCESS_FILTERS: Array<{
+  value: Access;
+  label: string;
+  // What the included methods are called in sentences
+  methods: string;
+}> = [
+  { value: "public", label: "Public only", methods: "public methods" },
+  {
+    value: "protected",
+    label: "Include protected",
+    methods: "public and protected methods",
+  },
+  { value: "private", label: "Include private", methods: "methods" },
+];
+
+const ACCESS_ORDER: Access[] = ["public", "protected", "private"];
+
+const compiledRules = new WeakMap<
+  AccessRules,
+  Array<{ pattern: RegExp; access: Access }>
+>();
+
+const getPythonRules = (rules: AccessRules) => {
+  let compiled = compiledRules.get(rules);
+  if (!compiled) {
+    compiled = rules.python.map(({ pattern, access }) => ({
+      pattern: new RegExp(pattern),
+      access,
+    }));
+    compiledRules.set(rules, compiled);
+  }
+  return compiled;
+};
+
+export function getMethodAccess(
+  method: Method,
+  sdkName: string,
+  rules: AccessRules = defaultAccessRules as AccessRules
+): Access {
+  if (sdkName === "python") {
+    return (
+      getPythonRules(rules).find(({ pattern }) => pattern.test(method.name))
+        ?.access || method.access
+    );
+  }
+  if (method.name.startsWith("#")) return rules.ts["#private"];
+  return method.access === "public" ? "public" : rules.ts[method.access];
+}
+
+export function isAccessIncluded(access: Access, filter: Access): boolean {
+  return ACCESS_ORDER.indexOf(access) <= ACCESS_ORDER.indexOf(filter);
+}
+
+export function isMethodIncluded(
+  method: Method,
+  sdkName: string,
+  filter: Access
+): boolean {
+  return isAccessIncluded(getMethodAccess(method, sdkName), filter);
+}
@@ -0,0 +1,153 @@
+import { normalizeName } from "./matching";
+
+export interface AlignedRow {
+  // Indexes into the TS and Python line arrays; a missing side is a gap
+  ts?: number;
+  python?: number;
+  // Identifier overlap of the two lines in [0, 1], 0 for gaps
+  similarity: number;
+}
+
+// Words that appear on both sides without saying anything about what a line
+// does, plus each language's own keywords
+const IGNORED_WORDS = new Set(
+  [
+    // shared
+    "if",
+    "else",
+    "return",
+    "for",
+    "in",
+    "await",
+    "async",
+    "try",
+    "new",
+    // TS
+    "const",
+    "let",
+    "var",
+    "this",
+    "function",
+    "catch",
+    "throw",
+    "undefined",
+    "null",
+    "true",
+    "false",
+    "of",
+    // Python
+    "self",
+    "def",
+    "elif",
+    "not",
+    "and",
+    "or",
+    "none",
+    "is",
+    "pass",
+    "except",
+    "raise",
+    "with",
+    "as",
+  ].map((word) => normalizeName(word))
+);
+
+// Pairs below this are treated as unrelated lines
+const MIN_SIMILARITY = 0.25;
+
+// `getUserAccount(marketIndex)` and `get_user_account(market_index)` give the
+// same set: identifiers compared camelCase/snake_case-insensitively
+export function getLineIdentifiers(line: string): Set<string> {
+  return new Set(
+    (line.match(/[A-Za-z_$][\w$]*/g) || [])
+      .map(normalizeName)
+      .filter((word) => word.length > 1 && !IGNORED_WORDS.has(word))
+  );
+}
+
+const getSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = Array.from(a).filter((word) => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+};
+
+// Puts each run of TS-only lines beside the Python-only lines between the
+// same two matches, so rewritten stretches read side by side instead of as
+// two staggered blocks
+const zipGaps = (rows: AlignedRow[]): AlignedRow[] => {
+  const result: AlignedRow[] = [];
+  let tsGap: number[] = [];
+  let pythonGap: number[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(tsGap.length, pythonGap.length); k++) {
+      result.push({ ts: tsGap[k], python: pythonGap[k], similarity: 0 });
+    }
+    tsGap = [];
+    pythonGap = [];
+  };
+
+  rows.forEach((row) => {
+    if (row.similarity > 0) {
+      flush();
+      result.push(row);
+    } else if (row.ts !== undefined) {
+      tsGap.push(row.ts);
+    } else if (row.python !== undefined) {
+      pythonGap.push(row.python);
+    }
+  });
+  flush();
+  return result;
+};
+
+// Aligns two method bodies line by line, like a diff but with fuzzy matches:
+// picks the order-preserving pairing of lines that maximizes total identifier
+// overlap, leaving gaps where one side has lines the other lacks.
+export function alignLines(
+  tsLines: string[],
+  pythonLines: string[]
+): AlignedRow[] {
+  const tsIdentifiers = tsLines.map(getLineIdentifiers);
+  const pythonIdentifiers = pythonLines.map(getLineIdentifiers);
+  const similarity = tsIdentifiers.map((ts) =>
+    pythonIdentifiers.map((python) => {
+      const score = getSimilarity(ts, python);
+      return score >= MIN_SIMILARITY ? score : 0;
+    })
+  );
+
+  // best[i][j]: best total for the first i TS and j Python lines
+  const best = Array.from({ length: tsLines.length + 1 }, () =>
+    new Array<number>(pythonLines.length + 1).fill(0)
+  );
+  for (let i = 1; i <= tsLines.length; i++) {
+    for (let j = 1; j <= pythonLines.length; j++) {
+      const pairScore = similarity[i - 1][j - 1];
+      best[i][j] = Math.max(
+        best[i - 1][j],
+        best[i][j - 1],
+        pairScore > 0 ? best[i - 1][j - 1] + pairScore : 0
+      );
+    }
+  }
+
+  const rows: AlignedRow[] = [];
+  let i = tsLines.length;
+  let j = pythonLines.length;
+  while (i > 0 || j > 0) {
+    const pairScore = i > 0 && j > 0 ? similarity[i - 1][j - 1] : 0;
+    if (pairScore > 0 && best[i][j] === best[i - 1][j - 1] + pairScore) {
+      rows.push({ ts: i - 1, python: j - 1, similarity: pairScore });
+      i--;
+      j--;
+    } else if (j > 0 && (i === 0 || best[i][j] === best[i][j - 1])) {
+      rows.push({ python: j - 1, similarity: 0 });
+      j--;
+    } else {
+      rows.push({ ts: i - 1, similarity: 0 });
+      i--;
+    }
+  }
+  return zipGaps(rows.reverse());
+}
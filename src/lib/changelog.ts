@@ -0,0 +1,151 @@
+import { isMethodIncluded } from "./access";
+import { foldAccessors } from "./kinds";
+import { createMatcher } from "./matching";
+import type { Class, Method } from "./sdk";
+import { formatSignature } from "./signature";
+import type { Snapshot } from "./snapshots";
+
+export type BacklogChange =
+  | "new-class"
+  | "new-method"
+  | "changed-signature"
+  | "removed-method"
+  | "removed-class";
+
+export interface BacklogEntry {
+  change: BacklogChange;
+  className: string;
+  methodName?: string;
+  // TS file and line, from the newer snapshot unless the item was removed
+  file: string;
+  line: number;
+  before?: string;
+  after?: string;
+  // Whether driftpy already has a counterpart in the newer snapshot
+  ported: boolean;
+}
+
+// Setters are folded into their getters, as the matcher does, so methods
+// are unique by name
+const getPortableMethods = (cls: Class) =>
+  foldAccessors(cls.methods).filter(
+    (method) =>
+      method.name !== "constructor" && isMethodIncluded(method, "ts", "public")
+  );
+
+// Duplicate class names are told apart by file
+const findPreviousClass = (classes: Class[], cls: Class) => {
+  const namesakes = classes.filter((other) => other.name === cls.name);
+  return (
+    namesakes.find((other) => other.file === cls.file) ||
+    (namesakes.length === 1 ? namesakes[0] : undefined)
+  );
+};
+
+// Everything in the TS SDK that changed between two snapshots and may need
+// porting: new classes and methods, changed signatures, and removals.
+export function buildPortingBacklog(
+  from: Snapshot,
+  to: Snapshot
+): BacklogEntry[] {
+  const matcher = createMatcher(to.tsData, to.pythonData);
+  const classKeys = new Map(
+    matcher.classPairs.flatMap((pair) =>
+      pair.ts ? [[pair.ts, pair.key] as const] : []
+    )
+  );
+  const isPorted = (cls: Class, method?: Method) => {
+    const classKey = classKeys.get(cls)!;
+    if (!method) return !!matcher.getClassPair(classKey)?.python;
+    return !!matcher.findMethodPair(classKey, method.name, "ts")?.python;
+  };
+
+  const entries: BacklogEntry[] = [];
+  const matchedPrevious = new Set<Class>();
+
+  to.tsData.classes.forEach((cls) => {
+    const previous = findPreviousClass(from.tsData.classes, cls);
+    if (!previous) {
+      entries.push({
+        change: "new-class",
+        className: cls.name,
+        file: cls.file,
+        line: cls.startLine,
+        ported: isPorted(cls),
+      });
+      getPortableMethods(cls).forEach((method) =>
+        entries.push({
+          change: "new-method",
+          className: cls.name,
+          methodName: method.name,
+          file: cls.file,
+          line: method.startLine,
+          after: formatSignature(method),
+          ported: isPorted(cls, method),
+        })
+      );
+      return;
+    }
+
+    matchedPrevious.add(previous);
+    const previousMethods = new Map(
+      getPortableMethods(previous).map((method) => [method.name, method])
+    );
+    const currentNames = new Set<string>();
+
+    getPortableMethods(cls).forEach((method) => {
+      currentNames.add(method.name);
+      const previousMethod = previousMethods.get(method.name);
+      const signature = formatSignature(method);
+      if (!previousMethod) {
+        entries.push({
+          change: "new-method",
+          className: cls.name,
+          methodName: method.name,
+          file: cls.file,
+          line: method.startLine,
+          after: signature,
+          ported: isPorted(cls, method),
+        });
+      } else if (formatSignature(previousMethod) !== signature) {
+        entries.push({
+          change: "changed-signature",
+          className: cls.name,
+          methodName: method.name,
+          file: cls.file,
+          line: method.startLine,
+          before: formatSignature(previousMethod),
+          after: signature,
+          ported: isPorted(cls, method),
+        });
+      }
+    });
+
+    previousMethods.forEach((method, name) => {
+      if (currentNames.has(name)) return;
+      entries.push({
+        change: "removed-method",
+        className: cls.name,
+        methodName: name,
+        file: previous.file,
+        line: method.startLine,
+        before: formatSignature(method),
+        ported: false,
+      });
+    });
+  });
+
+  from.tsData.classes
+    .filter((cls) => !matchedPrevious.has(cls))
+    .forEach((cls) =>
+      entries.push({
+        change: "removed-class",
+        className: cls.name,
+        file: cls.file,
+        line: cls.startLine,
+        ported: false,
+      })
+    );
+
+  return entries;
+}
@@ -0,0 +1,124 @@
+import type { FunctionModule } from "./functions";
+import type { MethodPair, NameMatcher } from "./matching";
+import {
+  getMethodPairsParity,
+  type Parity,
+  type ParityWeighting,
+} from "./parity";
+import { getDirectoryPath } from "./paths";
+
+export interface PairCounts {
+  common: number;
+  tsOnly: number;
+  pythonOnly: number;
+}
+
+export interface DirectoryNode {
+  // Directory relative to the SDK root, "" for the root itself
+  path: string;
+  name: string;
+  children: DirectoryNode[];
+  // Everything in this directory and below
+  classes: PairCounts;
+  methods: PairCounts;
+  functions: PairCounts;
+  parity: Parity;
+}
+
+// Pairs are filed under their TS side's directory, since that's the code
+// being ported; Python-only ones under the Python side's
+export function getPairDirectory(
+  ts?: { file: string },
+  python?: { file: string }
+): string {
+  return ts
+    ? getDirectoryPath(ts.file, "ts")
+    : getDirectoryPath(python!.file, "python");
+}
+
+// Whether `directory` is `path` or below it; the root path contains everything
+export function isInDirectory(directory: string, path: string): boolean {
+  return !path || directory === path || directory.startsWith(`${path}/`);
+}
+
+const emptyCounts = (): PairCounts => ({
+  common: 0,
+  tsOnly: 0,
+  pythonOnly: 0,
+});
+
+const countPair = (counts: PairCounts, ts: unknown, python: unknown) => {
+  if (ts && python) {
+    counts.common++;
+  } else if (ts) {
+    counts.tsOnly++;
+  } else {
+    counts.pythonOnly++;
+  }
+};
+
+export function buildDirectoryTree(
+  matcher: NameMatcher,
+  functionModules: FunctionModule[],
+  weighting: ParityWeighting = "methods"
+): DirectoryNode {
+  const createNode = (path: string, name: string): DirectoryNode => ({
+    path,
+    name,
+    children: [],
+    classes: emptyCounts(),
+    methods: emptyCounts(),
+    functions: emptyCounts(),
+    parity: getMethodPairsParity([]),
+  });
+  const root = createNode("", "All");
+  const methodPairs = new Map<DirectoryNode, MethodPair[]>();
+
+  // The node for `directory` and every node above it, creating any missing
+  const getAncestry = (directory: string): DirectoryNode[] => {
+    const nodes = [root];
+    directory
+      .split("/")
+      .filter(Boolean)
+      .forEach((segment) => {
+        const parent = nodes[nodes.length - 1];
+        const path = parent.path ? `${parent.path}/${segment}` : segment;
+        let child = parent.children.find((node) => node.path === path);
+        if (!child) {
+          child = createNode(path, segment);
+          parent.children.push(child);
+        }
+        nodes.push(child);
+      });
+    return nodes;
+  };
+
+  matcher.classPairs.forEach((classPair) => {
+    const pairs = matcher.getMethodPairs(classPair.key);
+    getAncestry(getPairDirectory(classPair.ts, classPair.python)).forEach(
+      (node) => {
+        countPair(node.classes, classPair.ts, classPair.python);
+        pairs.forEach(({ ts, python }) => countPair(node.methods, ts, python));
+        const nodePairs = methodPairs.get(node) || [];
+        nodePairs.push(...pairs);
+        methodPairs.set(node, nodePairs);
+      }
+    );
+  });
+
+  functionModules.forEach(({ pairs }) =>
+    pairs.forEach(({ ts, python }) =>
+      getAncestry(getPairDirectory(ts, python)).forEach((node) =>
+        countPair(node.functions, ts, python)
+      )
+    )
+  );
+
+  const finish = (node: DirectoryNode) => {
+    node.parity = getMethodPairsParity(methodPairs.get(node) || [], weighting);
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.children.forEach(finish);
+  };
+  finish(root);
+  return root;
+}
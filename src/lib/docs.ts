@@ -0,0 +1,154 @@
+import { getPairDirectory } from "./directories";
+import type { NameMatcher } from "./matching";
+import { toSnakeCase } from "./paths";
+import type { Method } from "./sdk";
+
+// grpc's code generator writes this where the .proto file has no comment
+const PLACEHOLDER_DOCSTRINGS = new Set([
+  "Missing associated documentation comment in .proto file.",
+]);
+
+// "unknown" for TS dumps from before JSDoc was captured
+export type DocState = "documented" | "undocumented" | "unknown";
+
+export function getDocState(item: { docstring?: string }): DocState {
+  if (item.docstring === undefined) return "unknown";
+  const docstring = item.docstring.trim();
+  return docstring && !PLACEHOLDER_DOCSTRINGS.has(docstring)
+    ? "documented"
+    : "undocumented";
+}
+
+export interface DocCoverage {
+  // Matched methods
+  total: number;
+  // Of those, how many each side documents
+  ts: number;
+  python: number;
+}
+
+export interface MethodDocs {
+  ts: Method;
+  python: Method;
+  tsState: DocState;
+  pythonState: DocState;
+  // The TS JSDoc as a Python docstring, when only TS is documented
+  suggestion?: string;
+}
+
+export interface ClassDocs {
+  key: string;
+  directory: string;
+  methods: MethodDocs[];
+  coverage: DocCoverage;
+}
+
+export interface DocReport {
+  classes: ClassDocs[];
+  // Every directory with matched methods, counting everything below it,
+  // sorted by path; "" is the whole SDK
+  directories: Array<{ path: string; coverage: DocCoverage }>;
+  // Whether the TS dump has JSDoc at all
+  hasTsDocs: boolean;
+}
+
+const addCoverage = (coverage: DocCoverage, docs: MethodDocs) => {
+  coverage.total++;
+  if (docs.tsState === "documented") coverage.ts++;
+  if (docs.pythonState === "documented") coverage.python++;
+};
+
+// Rewrites JSDoc in the Google style driftpy uses: `@param` tags become an
+// `Args:` section with snake_cased names and `@returns` a `Returns:` one.
+// Other tags are kept as they are.
+export function toPythonDocstring(jsdoc: string): string {
+  const description: string[] = [];
+  const args: string[] = [];
+  const returns: string[] = [];
+  let current = description;
+
+  jsdoc.split("\n").forEach((line) => {
+    const param = line.match(
+      /^@param\s+(?:\{[^}]*\}\s+)?\[?(\w+)[^\s]*\s*-?\s*(.*)$/
+    );
+    const returnsTag = line.match(/^@returns?\s*(?:\{[^}]*\}\s*)?(.*)$/);
+    if (param) {
+      args.push(`    ${toSnakeCase(param[1])}: ${param[2]}`.trimEnd());
+      current = args;
+    } else if (returnsTag) {
+      returns.push(`    ${returnsTag[1]}`.trimEnd());
+      current = returns;
+    } else if (line.startsWith("@")) {
+      description.push(line);
+      current = description;
+    } else if (current === description) {
+      description.push(line);
+    } else if (line.trim()) {
+      // A tag's description continuing onto the next line
+      current.push(`        ${line.trim()}`);
+    }
+  });
+
+  return [
+    description.join("\n").trim(),
+    args.length > 0 ? ["Args:", ...args].join("\n") : "",
+    returns.length > 0 ? ["Returns:", ...returns].join("\n") : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Documentation of every method the two SDKs share. Methods one side only
+// inherits are left to the class defining them.
+export function buildDocReport(matcher: NameMatcher): DocReport {
+  const classes: ClassDocs[] = [];
+  const directories = new Map<string, DocCoverage>();
+  let hasTsDocs = false;
+
+  matcher.classPairs.forEach((classPair) => {
+    if (!classPair.ts || !classPair.python) return;
+    const methods = matcher
+      .getMethodPairs(classPair.key)
+      .flatMap(({ ts, python, inherited }): MethodDocs[] => {
+        if (!ts || !python || inherited) return [];
+        const tsState = getDocState(ts);
+        const pythonState = getDocState(python);
+        if (tsState !== "unknown") hasTsDocs = true;
+        return [
+          {
+            ts,
+            python,
+            tsState,
+            pythonState,
+            suggestion:
+              tsState === "documented" && pythonState === "undocumented"
+                ? toPythonDocstring(ts.docstring!)
+                : undefined,
+          },
+        ];
+      });
+    if (methods.length === 0) return;
+
+    const directory = getPairDirectory(classPair.ts, classPair.python);
+    const coverage = { total: 0, ts: 0, python: 0 };
+    methods.forEach((docs) => addCoverage(coverage, docs));
+    classes.push({ key: classPair.key, directory, methods, coverage });
+
+    // The directory and each one above it
+    const segments = directory.split("/").filter(Boolean);
+    for (let depth = 0; depth <= segments.length; depth++) {
+      const path = segments.slice(0, depth).join("/");
+      const totals = directories.get(path) || { total: 0, ts: 0, python: 0 };
+      methods.forEach((docs) => addCoverage(totals, docs));
+      directories.set(path, totals);
+    }
+  });
+
+  return {
+    classes: classes.sort((a, b) => a.key.localeCompare(b.key)),
+    directories: Array.from(directories.entries())
+      .map(([path, coverage]) => ({ path, coverage }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    hasTsDocs,
+  };
+}
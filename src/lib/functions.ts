@@ -0,0 +1,70 @@
+import defaultAliases from "@/data/name-aliases.json";
+import { pairByName, type NameAliases } from "./matching";
+import { getModulePath } from "./paths";
+import type { SDKData, SDKFunction } from "./sdk";
+
+export interface FunctionPair {
+  key: string;
+  module: string;
+  ts?: SDKFunction;
+  python?: SDKFunction;
+}
+
+export interface FunctionModule {
+  module: string;
+  pairs: FunctionPair[];
+}
+
+export function matchFunctions(
+  tsData: SDKData,
+  pythonData: SDKData,
+  aliases: NameAliases = defaultAliases
+): FunctionModule[] {
+  // Prefer a namesake living in the equivalent module
+  const pairs: FunctionPair[] = pairByName(
+    tsData.functions || [],
+    pythonData.functions || [],
+    (fn) => fn.name,
+    aliases.functions.map((alias) => ({
+      ts: (fn) => fn.name === alias.ts,
+      python: (fn) => fn.name === alias.python,
+    })),
+    (tsFn, pythonFn) =>
+      getModulePath(tsFn.file, "ts") === getModulePath(pythonFn.file, "python")
+  ).map(({ ts, python }) => {
+    const fn = (ts || python)!;
+    const module = getModulePath(fn.file, ts ? "ts" : "python");
+    return {
+      key: `${module}:${fn.name}:${fn.startLine}`,
+      module,
+      ts,
+      python,
+    };
+  });
+
+  const modules = new Map<string, FunctionPair[]>();
+  pairs.forEach((pair) => {
+    modules.set(pair.module, [...(modules.get(pair.module) || []), pair]);
+  });
+
+  return Array.from(modules.entries())
+    .map(([module, modulePairs]) => ({
+      module,
+      pairs: modulePairs.sort((a, b) =>
+        (a.ts?.name || a.python?.name || "").localeCompare(
+          b.ts?.name || b.python?.name || ""
+        )
+      ),
+    }))
+    .sort((a, b) => a.module.localeCompare(b.module));
+}
+
+export function getFunctionPairStatus(pair: FunctionPair) {
+  if (pair.ts && pair.python) {
+    return "both";
+  } else if (pair.ts) {
+    return "ts-only";
+  } else {
+    return "python-only";
+  }
+}
@@ -0,0 +1,196 @@
+import { getBaseTypes, indexClasses, type BaseRelation } from "./inheritance";
+import { normalizeName, type ClassPair, type NameMatcher } from "./matching";
+import type { Class, SDKData, SDKName } from "./sdk";
+
+// A type in an inheritance tree. TS interfaces and library bases like `Error`
+// are not in the dumps, so their nodes have no class.
+export interface TypeNode {
+  name: string;
+  cls?: Class;
+  // How this node relates to its parent; undefined for roots
+  relation?: BaseRelation;
+  children: TypeNode[];
+}
+
+// Direct subtypes of every type name that something derives from
+const indexSubtypes = (data: SDKData, sdkName: SDKName) => {
+  const subtypes = new Map<
+    string,
+    Array<{ cls: Class; relation: BaseRelation }>
+  >();
+  data.classes.forEach((cls) =>
+    getBaseTypes(cls, sdkName).forEach(({ name, relation }) =>
+      subtypes.set(name, [...(subtypes.get(name) || []), { cls, relation }])
+    )
+  );
+  return subtypes;
+};
+
+// Every type with subtypes, rooted at the types that don't derive from
+// anything: interfaces, library bases and top-level classes. Classes with
+// several bases appear under each.
+export function buildHierarchy(data: SDKData, sdkName: SDKName): TypeNode[] {
+  const classes = indexClasses(data);
+  const subtypes = indexSubtypes(data, sdkName);
+
+  // `path` holds the types above this node, so a cycle stops at its repeat
+  const buildNode = (
+    name: string,
+    relation: BaseRelation | undefined,
+    path: Set<string>
+  ): TypeNode => ({
+    name,
+    cls: classes.get(name),
+    relation,
+    children: (subtypes.get(name) || [])
+      .filter(({ cls }) => !path.has(cls.name))
+      .sort((a, b) => a.cls.name.localeCompare(b.cls.name))
+      .map(({ cls, relation }) =>
+        buildNode(cls.name, relation, new Set(path).add(name))
+      ),
+  });
+
+  return Array.from(subtypes.keys())
+    .filter((name) => {
+      const cls = classes.get(name);
+      return !cls || getBaseTypes(cls, sdkName).length === 0;
+    })
+    .sort((a, b) => a.localeCompare(b))
+    .map((name) => buildNode(name, undefined, new Set()));
+}
+
+// Names of every class and interface below `name`
+const getDescendants = (
+  name: string,
+  subtypes: ReturnType<typeof indexSubtypes>
+): Set<string> => {
+  const descendants = new Set<string>();
+  const queue = [name];
+  while (queue.length > 0) {
+    (subtypes.get(queue.shift()!) || []).forEach(({ cls }) => {
+      if (!descendants.has(cls.name)) {
+        descendants.add(cls.name);
+        queue.push(cls.name);
+      }
+    });
+  }
+  return descendants;
+};
+
+export interface ImplementorDiff {
+  // The TS interface or base class, or the Python base with no TS equivalent
+  name: string;
+  // Its equivalent in the other SDK, if there is one
+  otherName?: string;
+  // Classes deriving from it, directly or not, in each SDK
+  ts: string[];
+  python: string[];
+  // Implementors whose counterpart doesn't derive from the equivalent base
+  tsOnly: string[];
+  pythonOnly: string[];
+}
+
+// Compares who implements each interface or extends each base class in the
+// two SDKs, e.g. TS subscriber implementations missing from driftpy
+export function diffImplementors(
+  matcher: NameMatcher,
+  tsData: SDKData,
+  pythonData: SDKData
+): ImplementorDiff[] {
+  const tsClasses = indexClasses(tsData);
+  const pythonClasses = indexClasses(pythonData);
+  const tsSubtypes = indexSubtypes(tsData, "ts");
+  const pythonSubtypes = indexSubtypes(pythonData, "python");
+
+  const pairsByTsName = new Map<string, ClassPair>();
+  const pairsByPythonName = new Map<string, ClassPair>();
+  matcher.classPairs.forEach((pair) => {
+    if (pair.ts && !pairsByTsName.has(pair.ts.name)) {
+      pairsByTsName.set(pair.ts.name, pair);
+    }
+    if (pair.python && !pairsByPythonName.has(pair.python.name)) {
+      pairsByPythonName.set(pair.python.name, pair);
+    }
+  });
+
+  // Interfaces aren't in the TS dump, so they are matched by name
+  const findPythonBase = (tsName: string) =>
+    pairsByTsName.get(tsName)?.python?.name ||
+    Array.from(pythonSubtypes.keys()).find(
+      (name) => normalizeName(name) === normalizeName(tsName)
+    );
+
+  const diff = (name: string, otherName: string | undefined, isTs: boolean) => {
+    const tsName = isTs ? name : otherName;
+    const pythonName = isTs ? otherName : name;
+    const ts = tsName ? getDescendants(tsName, tsSubtypes) : new Set<string>();
+    const python = pythonName
+      ? getDescendants(pythonName, pythonSubtypes)
+      : new Set<string>();
+    return {
+      name,
+      otherName,
+      ts: Array.from(ts).sort(),
+      python: Array.from(python).sort(),
+      tsOnly: Array.from(ts)
+        .filter((cls) => {
+          const counterpart = pairsByTsName.get(cls)?.python?.name;
+          return !counterpart || !python.has(counterpart);
+        })
+        .sort(),
+      pythonOnly: Array.from(python)
+        .filter((cls) => {
+          const counterpart = pairsByPythonName.get(cls)?.ts?.name;
+          return !counterpart || !ts.has(counterpart);
+        })
+        .sort(),
+    };
+  };
+
+  // Library bases like `Error` or `Enum` have nothing to compare against
+  const tsBases = Array.from(tsSubtypes.keys()).filter(
+    (name) =>
+      tsClasses.has(name) ||
+      (tsSubtypes.get(name) || []).some(
+        ({ relation }) => relation === "implements"
+      )
+  );
+  const tsDiffs = tsBases.map((name) => diff(name, findPythonBase(name), true));
+  const coveredPythonBases = new Set(tsDiffs.map((entry) => entry.otherName));
+  const pythonDiffs = Array.from(pythonSubtypes.keys())
+    .filter((name) => pythonClasses.has(name) && !coveredPythonBases.has(name))
+    .map((name) => diff(name, undefined, false));
+
+  return [...tsDiffs, ...pythonDiffs].sort(
+    (a, b) =>
+      b.tsOnly.length +
+        b.pythonOnly.length -
+        (a.tsOnly.length + a.pythonOnly.length) || a.name.localeCompare(b.name)
+  );
+}
+
+export interface InheritanceCoverage {
+  // TS methods of the class the matcher includes
+  total: number;
+  // Of those, ones the Python class defines itself
+  direct: number;
+  // ...and ones it only gets from a base class
+  inherited: number;
+}
+
+export function getInheritanceCoverage(
+  matcher: NameMatcher,
+  classKey: string
+): InheritanceCoverage {
+  const coverage = { total: 0, direct: 0, inherited: 0 };
+  matcher.getMethodPairs(classKey).forEach(({ ts, python, inherited }) => {
+    if (!ts || inherited?.sdkName === "ts") return;
+    coverage.total++;
+    if (inherited?.sdkName === "python") {
+      coverage.inherited++;
+    } else if (python) {
+      coverage.direct++;
+    }
+  });
+  return coverage;
+}
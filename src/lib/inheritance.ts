@@ -0,0 +1,139 @@
+import type { Class, Method, SDKData, SDKName } from "./sdk";
+
+export type BaseRelation = "extends" | "implements";
+
+export interface BaseType {
+  name: string;
+  relation: BaseRelation;
+}
+
+// Python bases that only mark a class as abstract or generic
+const IGNORED_PYTHON_BASES = new Set(["object", "ABC", "Generic", "Protocol"]);
+
+// Splits `Foo[Bar, Baz], Qux` on the commas outside brackets
+const splitTopLevel = (list: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of list) {
+    if ("[(<".includes(char)) depth++;
+    if ("])>".includes(char)) depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  return [...parts, current].map((part) => part.trim()).filter(Boolean);
+};
+
+// `Subscriber<T>` and `Subscriber[T]` are both `Subscriber`
+const stripTypeArguments = (name: string) => name.replace(/[<[].*$/, "");
+
+export function getBaseTypes(cls: Class, sdkName: SDKName): BaseType[] {
+  if (sdkName === "ts") {
+    return [
+      ...(cls.extends ? splitTopLevel(cls.extends) : []).map((name) => ({
+        name: stripTypeArguments(name),
+        relation: "extends" as const,
+      })),
+      ...(cls.implements || []).map((name) => ({
+        name: stripTypeArguments(name),
+        relation: "implements" as const,
+      })),
+    ];
+  }
+  // Python has no interfaces; abstract base classes play that part
+  return (cls.extends ? splitTopLevel(cls.extends) : [])
+    .map(stripTypeArguments)
+    .filter((name) => !IGNORED_PYTHON_BASES.has(name))
+    .map((name) => ({ name, relation: "extends" as const }));
+}
+
+// Classes by name. Where a dump has several classes of one name, bases
+// resolve to the first.
+export function indexClasses(data: SDKData): Map<string, Class> {
+  const classes = new Map<string, Class>();
+  data.classes.forEach((cls) => {
+    if (!classes.has(cls.name)) classes.set(cls.name, cls);
+  });
+  return classes;
+}
+
+export interface InheritedMethod {
+  method: Method;
+  // The base class that defines it
+  owner: Class;
+}
+
+export interface InheritanceResolution {
+  // Methods the class gets from base classes in the same dump
+  inherited: InheritedMethod[];
+  // Bases that aren't in the dump, like `Error` or `Enum`. Whatever they
+  // define is unknown, so a method missing from the class may be there.
+  unresolvedBases: string[];
+  // The classes around a loop in the chain, e.g. [A, B, A], if there is one.
+  // Resolution stops where the chain repeats itself.
+  cycle?: string[];
+}
+
+// Resolves `extends` chains within one dump. Bases are walked depth first,
+// left to right, and a method the class or an earlier base defines hides
+// later ones. TS interfaces contribute nothing as they have no bodies.
+export function createInheritanceResolver(
+  data: SDKData,
+  sdkName: SDKName
+): (cls: Class) => InheritanceResolution {
+  const classes = indexClasses(data);
+  const cache = new Map<Class, InheritanceResolution>();
+
+  const resolve = (cls: Class): InheritanceResolution => {
+    const seen = new Set(cls.methods.map((method) => method.name));
+    const visited = new Set<string>();
+    const resolution: InheritanceResolution = {
+      inherited: [],
+      unresolvedBases: [],
+    };
+
+    // `path` holds the classes from `cls` down to `current`
+    const visit = (current: Class, path: string[]) => {
+      getBaseTypes(current, sdkName)
+        .filter((base) => base.relation === "extends")
+        .forEach((base) => {
+          if (path.includes(base.name)) {
+            resolution.cycle ??= [
+              ...path.slice(path.indexOf(base.name)),
+              base.name,
+            ];
+            return;
+          }
+          if (visited.has(base.name)) return;
+          visited.add(base.name);
+
+          const owner = classes.get(base.name);
+          if (!owner) {
+            resolution.unresolvedBases.push(base.name);
+            return;
+          }
+          owner.methods.forEach((method) => {
+            if (method.name === "constructor" || seen.has(method.name)) return;
+            seen.add(method.name);
+            resolution.inherited.push({ method, owner });
+          });
+          visit(owner, [...path, owner.name]);
+        });
+    };
+    visit(cls, [cls.name]);
+    return resolution;
+  };
+
+  return (cls) => {
+    let resolution = cache.get(cls);
+    if (!resolution) {
+      resolution = resolve(cls);
+      cache.set(cls, resolution);
+    }
+    return resolution;
+  };
+}
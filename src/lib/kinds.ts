@@ -0,0 +1,121 @@
+import type { Method } from "./sdk";
+
+// How a method is called, whatever its SDK calls the kind: a static method
+// and a classmethod are both called on the class, a TS getter and a Python
+// property are both read as attributes
+export type MethodShape = "method" | "static" | "property" | "setter";
+
+export const SHAPE_LABELS: Record<MethodShape, string> = {
+  method: "instance method",
+  static: "static method",
+  property: "property",
+  setter: "setter",
+};
+
+export function getMethodShape(method: Method): MethodShape {
+  if (method.kind === "get" || method.kind === "property") return "property";
+  if (
+    method.kind === "set" ||
+    method.decorators?.some((decorator) => decorator.endsWith(".setter"))
+  ) {
+    return "setter";
+  }
+  if (
+    method.isStatic ||
+    method.isClassMethod ||
+    method.kind === "classmethod"
+  ) {
+    return "static";
+  }
+  return "method";
+}
+
+// The kind as its own SDK spells it, for badges; plain methods have none
+export function getKindLabel(method: Method): string | undefined {
+  if (method.kind === "get" || method.kind === "set") return method.kind;
+  if (method.kind !== "method" && method.kind !== "constructor") {
+    return method.kind;
+  }
+  if (getMethodShape(method) === "setter") return "setter";
+  return method.isStatic ? "static" : undefined;
+}
+
+// Drops setters whose getter is in the list: the two are one property, so
+// they're matched and counted once, under the getter
+export function foldAccessors(methods: Method[]): Method[] {
+  const getters = new Set(
+    methods
+      .filter((method) => getMethodShape(method) === "property")
+      .map((method) => method.name)
+  );
+  return methods.filter(
+    (method) => getMethodShape(method) !== "setter" || !getters.has(method.name)
+  );
+}
+
+// The setter `foldAccessors` drops for this getter, if there is one
+export function findSetter(
+  methods: Method[],
+  getter: Method
+): Method | undefined {
+  if (getMethodShape(getter) !== "property") return undefined;
+  return methods.find(
+    (method) =>
+      method.name === getter.name && getMethodShape(method) === "setter"
+  );
+}
+
+// `getFoo()`/`is_foo(self)`: a method that only reads a value, which the
+// other SDK may well have as a property
+const isGetterMethod = (method: Method) =>
+  method.kind === "method" &&
+  !method.isStatic &&
+  /^(get|is)([A-Z]|_)/.test(method.name) &&
+  method.parameters.every(
+    (parameter) => parameter.name === "self" || parameter.name === "cls"
+  );
+
+// Whether two methods could be the same API: the same shape, or a getter
+// method on one side and a property on the other
+export function areKindsCompatible(tsMethod: Method, pythonMethod: Method) {
+  const tsShape = getMethodShape(tsMethod);
+  const pythonShape = getMethodShape(pythonMethod);
+  return (
+    tsShape === pythonShape ||
+    (pythonShape === "property" && isGetterMethod(tsMethod)) ||
+    (tsShape === "property" && isGetterMethod(pythonMethod))
+  );
+}
+
+// Both shapes when a matched pair is called differently in the two SDKs,
+// e.g. static in TS but an instance method in Python
+export function getKindMismatch(
+  tsMethod: Method,
+  pythonMethod: Method
+): { ts: MethodShape; python: MethodShape } | undefined {
+  const ts = getMethodShape(tsMethod);
+  const python = getMethodShape(pythonMethod);
+  return ts === python ? undefined : { ts, python };
+}
+
+// A TS method returning a promise is awaited like an `async` one, whether or
+// not it's declared so. Python return annotations are left alone: only a
+// coroutine is awaited there, and a function returning some `Promise` class
+// isn't one.
+export function isAsyncMethod(
+  method: { isAsync: boolean; returns?: string },
+  sdkName: string
+): boolean {
+  return (
+    method.isAsync ||
+    (sdkName === "ts" && /^Promise\s*</.test(method.returns || ""))
+  );
+}
+
+// e.g. a network call that's async in TS but blocks in Python
+export function hasAsyncMismatch(
+  ts: { isAsync: boolean; returns?: string },
+  python: { isAsync: boolean; returns?: string }
+): boolean {
+  return isAsyncMethod(ts, "ts") !== isAsyncMethod(python, "python");
+}
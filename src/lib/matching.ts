@@ -0,0 +1,275 @@
+import defaultAliases from "@/data/name-aliases.json";
+import { isMethodIncluded, type Access } from "./access";
+import {
+  createInheritanceResolver,
+  type InheritanceResolution,
+} from "./inheritance";
+import { areKindsCompatible, foldAccessors } from "./kinds";
+import { getModuleMismatch } from "./paths";
+import type { Class, Method, SDKData, SDKName } from "./sdk";
+
+export interface ClassPair {
+  key: string;
+  ts?: Class;
+  python?: Class;
+}
+
+export interface MethodPair {
+  key: string;
+  ts?: Method;
+  python?: Method;
+  // Set when one side isn't defined by the class itself but by a base class
+  // it extends, e.g. a Python subclass getting `subscribe` from its parent
+  inherited?: { sdkName: SDKName; owner: Class };
+}
+
+interface ClassRef {
+  name: string;
+  // Only needed when several classes in one SDK share a name
+  file?: string;
+}
+
+export interface NameAliases {
+  classes: Array<{ ts: ClassRef; python: ClassRef }>;
+  // `class` is the TS class name (or the Python one for Python-only classes)
+  methods: Array<{ class: string; ts: string; python: string }>;
+  functions: Array<{ ts: string; python: string }>;
+}
+
+export interface NameMatcher {
+  classPairs: ClassPair[];
+  getClassPair: (key: string) => ClassPair | undefined;
+  getMethodPairs: (classKey: string) => MethodPair[];
+  findMethodPair: (
+    classKey: string,
+    methodName: string,
+    sdkName: string
+  ) => MethodPair | undefined;
+  // How each side's `extends` chain resolved, for flagging cycles and bases
+  // outside the dumps
+  getInheritance: (classKey: string) => {
+    ts?: InheritanceResolution;
+    python?: InheritanceResolution;
+  };
+}
+
+// Prefixes that carry no meaning across the SDKs, e.g. TS `getIsSubscribed`
+// vs Python `is_subscribed`, or a TS getter `getOrder` vs a Python `order`.
+const OPTIONAL_PREFIXES = ["get", "is"];
+
+// Splits camelCase, PascalCase and snake_case names into lowercase words.
+// Runs of capitals are kept together so `getUserPDA`, `getUserPda` and
+// `get_user_pda` all become ["get", "user", "pda"].
+export function tokenizeName(name: string): string[] {
+  return (
+    name
+      .replace(/^_+/, "")
+      .match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g)
+      ?.map((token) => token.toLowerCase()) || []
+  );
+}
+
+export function normalizeName(name: string): string {
+  return tokenizeName(name).join("");
+}
+
+// The normalized name without a leading `get`/`is`, or undefined if the name
+// has no such prefix.
+export function stripOptionalPrefix(name: string): string | undefined {
+  const tokens = tokenizeName(name);
+  if (tokens.length > 1 && OPTIONAL_PREFIXES.includes(tokens[0])) {
+    return tokens.slice(1).join("");
+  }
+  return undefined;
+}
+
+// Whether two names would pair up in `pairByName`'s name passes
+const isSameName = (a: string, b: string) =>
+  normalizeName(a) === normalizeName(b) ||
+  (stripOptionalPrefix(a) || normalizeName(a)) ===
+    (stripOptionalPrefix(b) || normalizeName(b));
+
+const matchesRef = (cls: Class, ref: ClassRef) =>
+  cls.name === ref.name && (!ref.file || cls.file === ref.file);
+
+// Pairs up items from both SDKs: explicit aliases first, then exact
+// normalized names, then names with an optional prefix stripped. Each item is
+// used at most once, and the prefix pass only pairs unambiguous names. When a
+// TS item has several Python namesakes, `isPreferred` picks between them, and
+// in the prefix pass a single preferred one isn't ambiguous unless another TS
+// namesake prefers it too. TS items are paired in order, so of several TS
+// namesakes the first takes the Python one whatever `isPreferred` says.
+export function pairByName<T>(
+  tsItems: T[],
+  pythonItems: T[],
+  getName: (item: T) => string,
+  aliases: Array<{ ts: (item: T) => boolean; python: (item: T) => boolean }>,
+  isPreferred: (ts: T, python: T) => boolean = () => false
+): Array<{ ts?: T; python?: T }> {
+  const pairs: Array<{ ts?: T; python?: T }> = [];
+  const unmatchedTs = new Set(tsItems);
+  const unmatchedPython = new Set(pythonItems);
+
+  const pair = (ts: T, python: T) => {
+    pairs.push({ ts, python });
+    unmatchedTs.delete(ts);
+    unmatchedPython.delete(python);
+  };
+
+  aliases.forEach((alias) => {
+    const ts = Array.from(unmatchedTs).find(alias.ts);
+    const python = Array.from(unmatchedPython).find(alias.python);
+    if (ts && python) pair(ts, python);
+  });
+
+  const passes: Array<(name: string) => string | undefined> = [
+    normalizeName,
+    (name) => stripOptionalPrefix(name) || normalizeName(name),
+  ];
+  passes.forEach((getKey, passIndex) => {
+    const pythonByKey = new Map<string, T[]>();
+    unmatchedPython.forEach((item) => {
+      const key = getKey(getName(item));
+      if (key) pythonByKey.set(key, [...(pythonByKey.get(key) || []), item]);
+    });
+    const tsByKey = new Map<string, T[]>();
+    unmatchedTs.forEach((item) => {
+      const key = getKey(getName(item));
+      if (key) tsByKey.set(key, [...(tsByKey.get(key) || []), item]);
+    });
+
+    Array.from(unmatchedTs).forEach((ts) => {
+      const key = getKey(getName(ts));
+      if (!key) return;
+      const candidates = (pythonByKey.get(key) || []).filter((item) =>
+        unmatchedPython.has(item)
+      );
+      const preferred = candidates.filter((item) => isPreferred(ts, item));
+      const rivals = (tsByKey.get(key) || []).filter(
+        (item) => item !== ts && unmatchedTs.has(item)
+      );
+      const isUnique =
+        (candidates.length === 1 && rivals.length === 0) ||
+        (preferred.length === 1 &&
+          !rivals.some((item) => isPreferred(item, preferred[0])));
+      if (candidates.length > 0 && (passIndex === 0 || isUnique)) {
+        pair(ts, preferred[0] || candidates[0]);
+      }
+    });
+  });
+
+  unmatchedTs.forEach((ts) => pairs.push({ ts }));
+  unmatchedPython.forEach((python) => pairs.push({ python }));
+  return pairs;
+}
+
+// Methods less visible than `access` are left out before pairing, as if they
+// didn't exist, so they can't count towards parity or show up unmatched
+export function createMatcher(
+  tsData: SDKData,
+  pythonData: SDKData,
+  aliases: NameAliases = defaultAliases,
+  access: Access = "public"
+): NameMatcher {
+  const classPairs: ClassPair[] = [];
+  const usedKeys = new Set<string>();
+
+  pairByName(
+    tsData.classes,
+    pythonData.classes,
+    (cls) => cls.name,
+    aliases.classes.map((alias) => ({
+      ts: (cls) => matchesRef(cls, alias.ts),
+      python: (cls) => matchesRef(cls, alias.python),
+    })),
+    // Prefer a namesake living in the equivalent module
+    (tsClass, pythonClass) => !getModuleMismatch(tsClass, pythonClass)
+  ).forEach(({ ts, python }) => {
+    const cls = (ts || python)!;
+    // Both SDKs have a few duplicate class names in different files
+    const key = usedKeys.has(cls.name) ? `${cls.name} (${cls.file})` : cls.name;
+    usedKeys.add(key);
+    classPairs.push({ key, ts, python });
+  });
+
+  const classPairsByKey = new Map(classPairs.map((pair) => [pair.key, pair]));
+  const methodPairsCache = new Map<string, MethodPair[]>();
+  const resolveTs = createInheritanceResolver(tsData, "ts");
+  const resolvePython = createInheritanceResolver(pythonData, "python");
+
+  const getInheritance = (classKey: string) => {
+    const classPair = classPairsByKey.get(classKey);
+    return {
+      ts: classPair?.ts && resolveTs(classPair.ts),
+      python: classPair?.python && resolvePython(classPair.python),
+    };
+  };
+
+  const getMethodPairs = (classKey: string): MethodPair[] => {
+    const cached = methodPairsCache.get(classKey);
+    if (cached) return cached;
+
+    const classPair = classPairsByKey.get(classKey);
+    if (!classPair) return [];
+    const className = classPair.ts?.name || classPair.python?.name;
+
+    const methodPairs: MethodPair[] = pairByName(
+      foldAccessors(classPair.ts?.methods || []).filter(
+        (m) => m.name !== "constructor" && isMethodIncluded(m, "ts", access)
+      ),
+      foldAccessors(classPair.python?.methods || []).filter((m) =>
+        isMethodIncluded(m, "python", access)
+      ),
+      (method) => method.name,
+      aliases.methods
+        .filter(
+          (alias) =>
+            alias.class === classPair.ts?.name ||
+            alias.class === classPair.python?.name
+        )
+        .map((alias) => ({
+          ts: (method) => method.name === alias.ts,
+          python: (method) => method.name === alias.python,
+        })),
+      // A getter goes with a property rather than a namesake method
+      areKindsCompatible
+    ).map(({ ts, python }) => ({
+      key: `${className}.${normalizeName((ts || python)!.name)}`,
+      ts,
+      python,
+    }));
+
+    // A method missing from one side may be inherited there instead
+    const inheritance = getInheritance(classKey);
+    methodPairs.forEach((pair) => {
+      if (pair.ts && pair.python) return;
+      const own = pair.ts || pair.python!;
+      const sdkName: SDKName = pair.ts ? "python" : "ts";
+      const match = inheritance[sdkName]?.inherited.find(
+        ({ method }) =>
+          isMethodIncluded(method, sdkName, access) &&
+          isSameName(method.name, own.name)
+      );
+      if (match) {
+        pair[sdkName] = match.method;
+        pair.inherited = { sdkName, owner: match.owner };
+      }
+    });
+
+    methodPairsCache.set(classKey, methodPairs);
+    return methodPairs;
+  };
+
+  return {
+    classPairs,
+    getClassPair: (key) => classPairsByKey.get(key),
+    getMethodPairs,
+    findMethodPair: (classKey, methodName, sdkName) =>
+      getMethodPairs(classKey).find(
+        (pair) =>
+          pair[sdkName as SDKName]?.name === methodName &&
+          pair.inherited?.sdkName !== sdkName
+      ),
+    getInheritance,
+  };
+}
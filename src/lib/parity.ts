@@ -0,0 +1,73 @@
+import type { MethodPair, NameMatcher } from "./matching";
+import { getLineCount, type Method } from "./sdk";
+
+// How much each TS method counts towards parity: one each, or by its length
+// so that porting a 200-line method moves the needle more than a getter.
+export type ParityWeighting = "methods" | "lines";
+
+export interface Parity {
+  // Weighted total of the TS methods the matcher includes, public ones by
+  // default
+  total: number;
+  // Weighted total of those with a Python counterpart, defined or inherited
+  ported: number;
+  // `ported / total` in [0, 1]; 1 for classes with nothing to port
+  ratio: number;
+}
+
+export const PARITY_WEIGHTINGS: Array<{
+  value: ParityWeighting;
+  label: string;
+}> = [
+  { value: "methods", label: "Method count" },
+  { value: "lines", label: "Line count" },
+];
+
+const getWeight = (method: Method, weighting: ParityWeighting) =>
+  weighting === "lines" ? getLineCount(method) : 1;
+
+const toParity = (total: number, ported: number): Parity => ({
+  total,
+  ported,
+  ratio: total === 0 ? 1 : ported / total,
+});
+
+export function getMethodPairsParity(
+  methodPairs: MethodPair[],
+  weighting: ParityWeighting = "methods"
+): Parity {
+  let total = 0;
+  let ported = 0;
+  methodPairs.forEach(({ ts, python, inherited }) => {
+    // A TS method inherited from a base class counts towards the base
+    if (!ts || inherited?.sdkName === "ts") return;
+    const weight = getWeight(ts, weighting);
+    total += weight;
+    if (python) ported += weight;
+  });
+  return toParity(total, ported);
+}
+
+export function getClassParity(
+  matcher: NameMatcher,
+  classKey: string,
+  weighting: ParityWeighting = "methods"
+): Parity {
+  return getMethodPairsParity(matcher.getMethodPairs(classKey), weighting);
+}
+
+// Parity across every TS class, so classes missing from driftpy entirely
+// count as 0% ported
+export function getOverallParity(
+  matcher: NameMatcher,
+  weighting: ParityWeighting = "methods"
+): Parity {
+  return getMethodPairsParity(
+    matcher.classPairs.flatMap((pair) => matcher.getMethodPairs(pair.key)),
+    weighting
+  );
+}
+
+export function formatParity(parity: Parity): string {
+  return `${(parity.ratio * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,124 @@
+import defaultPathMappings from "@/data/path-mappings.json";
+import { getCleanFilePath } from "./sdk";
+
+// Where a part of the TS SDK lives in driftpy, as globs over paths relative to
+// each SDK root without the extension. `*` matches within one path segment
+// and `**` across segments; whatever each wildcard matched in the TS path is
+// snake_cased and substituted for the same wildcard in the Python pattern.
+// The first matching rule wins.
+export interface PathMapping {
+  ts: string;
+  python: string;
+}
+
+export interface PathMappings {
+  rules: PathMapping[];
+}
+
+// `DLOBNode` -> `dlob_node`, `indicative-quotes` -> `indicative_quotes`
+export function toSnakeCase(segment: string): string {
+  return segment
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/-/g, "_")
+    .toLowerCase();
+}
+
+const WILDCARD = /\*\*|\*/g;
+
+const compileRule = (rule: PathMapping) => {
+  const source = rule.ts
+    .split(/(\*\*|\*)/)
+    .map((part) =>
+      part === "**"
+        ? "(.*)"
+        : part === "*"
+        ? "([^/]*)"
+        : part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return { pattern: new RegExp(`^${source}$`), python: rule.python };
+};
+
+const compiledRules = new WeakMap<
+  PathMappings,
+  ReturnType<typeof compileRule>[]
+>();
+
+const getRules = (mappings: PathMappings) => {
+  let rules = compiledRules.get(mappings);
+  if (!rules) {
+    rules = mappings.rules.map(compileRule);
+    compiledRules.set(mappings, rules);
+  }
+  return rules;
+};
+
+const snakeCasePath = (path: string) =>
+  path.split("/").map(toSnakeCase).join("/");
+
+// A file's path in driftpy's layout, relative to the SDK root and without
+// the extension: TS paths go through the first matching rule, or are just
+// snake_cased when none match
+export function getMappedPath(
+  filePath: string,
+  sdkName: string,
+  mappings: PathMappings = defaultPathMappings
+): string {
+  const path = getCleanFilePath(filePath, sdkName).replace(
+    /\.(ts|tsx|js|py)$/,
+    ""
+  );
+  if (sdkName !== "ts") return snakeCasePath(path);
+
+  for (const rule of getRules(mappings)) {
+    const match = path.match(rule.pattern);
+    if (match) {
+      let index = 1;
+      return rule.python.replace(WILDCARD, () =>
+        snakeCasePath(match[index++] || "")
+      );
+    }
+  }
+  return snakeCasePath(path);
+}
+
+// Module path in driftpy's layout, e.g. `math/spotPosition.ts` and
+// `math/spot_position.py` both become `math/spot_position`, and package
+// entry points (`index.ts`, `__init__.py`) stand for their directory
+export function getModulePath(
+  filePath: string,
+  sdkName: string,
+  mappings: PathMappings = defaultPathMappings
+): string {
+  return getMappedPath(filePath, sdkName, mappings).replace(
+    /\/(index|__init__)$/,
+    ""
+  );
+}
+
+// Directory of a source file in driftpy's layout, "" for the SDK root
+export function getDirectoryPath(
+  filePath: string,
+  sdkName: string,
+  mappings: PathMappings = defaultPathMappings
+): string {
+  return getMappedPath(filePath, sdkName, mappings)
+    .split("/")
+    .slice(0, -1)
+    .join("/");
+}
+
+// Both directories when the two sides of a pair live in different modules,
+// which usually means the mapping rules need a new entry or the pair is wrong
+export function getModuleMismatch(
+  ts: { file: string },
+  python: { file: string },
+  mappings: PathMappings = defaultPathMappings
+): { ts: string; python: string } | undefined {
+  const tsDirectory = getDirectoryPath(ts.file, "ts", mappings);
+  const pythonDirectory = getDirectoryPath(python.file, "python", mappings);
+  return tsDirectory === pythonDirectory
+    ? undefined
+    : { ts: tsDirectory, python: pythonDirectory };
+}
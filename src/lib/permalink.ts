@@ -0,0 +1,147 @@
+import { ACCESS_FILTERS, type Access } from "./access";
+import type { ParityWeighting } from "./parity";
+import type { SDKName } from "./sdk";
+
+// The panels opened from the buttons above the columns: the longest methods,
+// the methods where one SDK has the most lines relative to the other, and the
+// directory tree
+export type Panel = "longest" | "python-ratio" | "ts-ratio" | "directories";
+
+// The comparison page's filters and open panels, kept in the query string so
+// a reload or a pasted link shows the same thing
+export interface ViewState {
+  searchTerm: string;
+  showCommon: boolean;
+  showTsOnly: boolean;
+  showPythonOnly: boolean;
+  hideEmptyClasses: boolean;
+  // Class pair keys
+  expandedClasses: string[];
+  hideCommonMethods: string[];
+  // `${sdkName}-${className}` keys, as used by the sort toggles
+  sortByLength: string[];
+  panels: Panel[];
+  view: "classes" | "functions";
+  parityWeighting: ParityWeighting;
+  access: Access;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  searchTerm: "",
+  showCommon: true,
+  showTsOnly: false,
+  showPythonOnly: false,
+  hideEmptyClasses: true,
+  expandedClasses: [],
+  hideCommonMethods: [],
+  sortByLength: [],
+  panels: [],
+  view: "classes",
+  parityWeighting: "methods",
+  access: "public",
+};
+
+const PANELS: Panel[] = ["longest", "python-ratio", "ts-ratio", "directories"];
+
+// Class and method names never contain commas, so lists are comma-joined
+const parseList = (value: string | null): string[] =>
+  value ? value.split(",").filter(Boolean) : [];
+
+export function parseViewState(search: string): ViewState {
+  const params = new URLSearchParams(search);
+  const show = params.get("show");
+  const shown = show === null ? undefined : parseList(show);
+
+  return {
+    searchTerm: params.get("q") || DEFAULT_VIEW_STATE.searchTerm,
+    showCommon: shown
+      ? shown.includes("common")
+      : DEFAULT_VIEW_STATE.showCommon,
+    showTsOnly: shown ? shown.includes("ts") : DEFAULT_VIEW_STATE.showTsOnly,
+    showPythonOnly: shown
+      ? shown.includes("python")
+      : DEFAULT_VIEW_STATE.showPythonOnly,
+    hideEmptyClasses: params.get("empty") !== "show",
+    expandedClasses: parseList(params.get("open")),
+    hideCommonMethods: parseList(params.get("hideCommon")),
+    sortByLength: parseList(params.get("sort")),
+    // Links from before the directory tree call the panels `boards`
+    panels: parseList(params.get("panels") ?? params.get("boards")).filter(
+      (panel): panel is Panel => PANELS.includes(panel as Panel)
+    ),
+    view: params.get("view") === "functions" ? "functions" : "classes",
+    parityWeighting: params.get("weight") === "lines" ? "lines" : "methods",
+    access:
+      ACCESS_FILTERS.find(({ value }) => value === params.get("access"))
+        ?.value || DEFAULT_VIEW_STATE.access,
+  };
+}
+
+// `?…` with only the values that differ from the defaults, or "" if none do
+export function serializeViewState(state: ViewState): string {
+  const params = new URLSearchParams();
+  const setList = (name: string, values: string[]) => {
+    if (values.length > 0) params.set(name, values.join(","));
+  };
+
+  if (state.searchTerm) params.set("q", state.searchTerm);
+  if (
+    state.showCommon !== DEFAULT_VIEW_STATE.showCommon ||
+    state.showTsOnly !== DEFAULT_VIEW_STATE.showTsOnly ||
+    state.showPythonOnly !== DEFAULT_VIEW_STATE.showPythonOnly
+  ) {
+    params.set(
+      "show",
+      [
+        state.showCommon && "common",
+        state.showTsOnly && "ts",
+        state.showPythonOnly && "python",
+      ]
+        .filter(Boolean)
+        .join(",")
+    );
+  }
+  if (!state.hideEmptyClasses) params.set("empty", "show");
+  setList("open", state.expandedClasses);
+  setList("hideCommon", state.hideCommonMethods);
+  setList("sort", state.sortByLength);
+  setList("panels", state.panels);
+  if (state.view !== DEFAULT_VIEW_STATE.view) params.set("view", state.view);
+  if (state.parityWeighting !== DEFAULT_VIEW_STATE.parityWeighting) {
+    params.set("weight", state.parityWeighting);
+  }
+  if (state.access !== DEFAULT_VIEW_STATE.access) {
+    params.set("access", state.access);
+  }
+
+  const search = params.toString().replace(/%2C/g, ",");
+  return search ? `?${search}` : "";
+}
+
+export interface MethodAnchor {
+  sdkName: SDKName;
+  // Class pair key
+  className: string;
+  methodName: string;
+}
+
+// Element id of a method row and the hash that links to it. It's the same
+// `${sdkName}-${className}-${methodName}` key the code snippets use. Class
+// pair keys can contain dashes, as duplicate names get their file appended
+// (`Config (protocol-v2/…)`), but method names are identifiers and can't, so
+// parsing splits on the last dash.
+export const getMethodAnchor = ({
+  sdkName,
+  className,
+  methodName,
+}: MethodAnchor) => `${sdkName}-${className}-${methodName}`;
+
+export function parseMethodAnchor(hash: string): MethodAnchor | undefined {
+  const match = decodeURIComponent(hash).match(/^#?(ts|python)-(.+)-(.+)$/);
+  if (!match) return undefined;
+  return {
+    sdkName: match[1] as SDKName,
+    className: match[2],
+    methodName: match[3],
+  };
+}
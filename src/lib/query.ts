@@ -0,0 +1,456 @@
+import { getPairDirectory, isInDirectory } from "./directories";
+import type { ClassPair, MethodPair } from "./matching";
+import { normalizeName } from "./matching";
+import type { FunctionPair } from "./functions";
+import { getKindMismatch, hasAsyncMismatch, isAsyncMethod } from "./kinds";
+import { getLineCount, type Method, type SDKFunction } from "./sdk";
+
+export type QueryStatus = "common" | "ts-only" | "python-only";
+
+// Ways the two sides of a matched pair disagree
+export type QueryMismatch = "async" | "kind";
+
+// One thing the search box filters: a method pair, a function pair, or a
+// class without methods (which has no members)
+export interface QueryItem {
+  // Class pair key and both sides' class names, which can differ (User and
+  // DriftUser), or the module path for functions
+  classNames: string[];
+  files: string[];
+  // See `getPairDirectory`
+  directory: string;
+  status: QueryStatus;
+  mismatches: QueryMismatch[];
+  // Either side is async; see `isAsyncMethod`
+  isAsync: boolean;
+  // Whichever of the TS and Python sides exist
+  members: Array<Method | SDKFunction>;
+}
+
+export type QueryField =
+  | "class"
+  | "method"
+  | "file"
+  | "dir"
+  | "status"
+  | "mismatch"
+  | "async"
+  | "static"
+  | "returns"
+  | "param"
+  | "lines";
+
+export const QUERY_FIELDS: Record<
+  QueryField,
+  { description: string; values?: string[] }
+> = {
+  class: { description: "Class name (module for functions) contains" },
+  method: { description: "Method or function name contains" },
+  file: { description: "File path contains" },
+  dir: { description: "In this directory or below, e.g. dir:accounts" },
+  status: {
+    description: "Which SDKs have it",
+    values: ["common", "ts-only", "python-only"],
+  },
+  mismatch: {
+    description: "Both SDKs have it, but differently",
+    values: ["async", "kind"],
+  },
+  async: { description: "Either side is async", values: ["true", "false"] },
+  static: { description: "Either side is static", values: ["true", "false"] },
+  returns: { description: "Return type contains" },
+  param: { description: "Has a parameter named like" },
+  lines: { description: "Either side is longer/shorter, e.g. >50" },
+};
+
+export class QuerySyntaxError extends Error {
+  // Offset into the query the error was found at
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "QuerySyntaxError";
+    this.position = position;
+  }
+}
+
+export type QueryMatcher = (item: QueryItem) => boolean;
+
+export interface Token {
+  type: "(" | ")" | "and" | "or" | "not" | "term";
+  text: string;
+  start: number;
+}
+
+const KEYWORDS: Record<string, Token["type"]> = {
+  AND: "and",
+  OR: "or",
+  NOT: "not",
+};
+
+// Own keys only, so words like `constructor` aren't taken for a field or
+// keyword through the object prototype
+const isQueryField = (field: string): field is QueryField =>
+  Object.hasOwn(QUERY_FIELDS, field);
+
+// Splits on whitespace and parentheses; double quotes group a value that
+// contains either, e.g. `returns:"Promise<void>"` or `"get user"`
+export const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char, text: char, start: i });
+      i++;
+    } else if (
+      char === "-" &&
+      i + 1 < query.length &&
+      !/[\s)]/.test(query[i + 1])
+    ) {
+      tokens.push({ type: "not", text: char, start: i });
+      i++;
+    } else {
+      const start = i;
+      let text = "";
+      while (i < query.length && !/[\s()]/.test(query[i])) {
+        if (query[i] === '"') {
+          const end = query.indexOf('"', i + 1);
+          if (end === -1) {
+            throw new QuerySyntaxError("Unclosed quote", i);
+          }
+          text += query.slice(i + 1, end);
+          i = end + 1;
+        } else {
+          text += query[i];
+          i++;
+        }
+      }
+      const keyword = query.slice(start, i);
+      tokens.push({
+        type: Object.hasOwn(KEYWORDS, keyword) ? KEYWORDS[keyword] : "term",
+        text,
+        start,
+      });
+    }
+  }
+  return tokens;
+};
+
+const includes = (haystack: string | undefined, needle: string) =>
+  !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+
+const parseBoolean = (value: string, token: Token): boolean => {
+  if (value !== "true" && value !== "false") {
+    throw new QuerySyntaxError(
+      `Expected true or false, got "${value}"`,
+      token.start
+    );
+  }
+  return value === "true";
+};
+
+const COMPARISONS: Record<string, (a: number, b: number) => boolean> = {
+  ">": (a, b) => a > b,
+  ">=": (a, b) => a >= b,
+  "<": (a, b) => a < b,
+  "<=": (a, b) => a <= b,
+  "=": (a, b) => a === b,
+};
+
+const compileTerm = (token: Token): QueryMatcher => {
+  const separator = token.text.indexOf(":");
+  if (separator === -1) {
+    // Plain words match class and member names, as the search always did
+    return (item) =>
+      item.classNames.some((name) => includes(name, token.text)) ||
+      item.members.some((member) => includes(member.name, token.text));
+  }
+
+  const field = token.text.slice(0, separator);
+  const value = token.text.slice(separator + 1);
+  if (!isQueryField(field)) {
+    throw new QuerySyntaxError(`Unknown field "${field}"`, token.start);
+  }
+  if (!value) {
+    throw new QuerySyntaxError(`Missing value for ${field}:`, token.start);
+  }
+
+  switch (field) {
+    case "class":
+      return (item) => item.classNames.some((name) => includes(name, value));
+    case "method": {
+      // `method:getUser` also finds `get_user`
+      const name = normalizeName(value);
+      return (item) =>
+        item.members.some((member) =>
+          normalizeName(member.name).includes(name)
+        );
+    }
+    case "file":
+      return (item) => item.files.some((file) => includes(file, value));
+    case "dir": {
+      const path = value.toLowerCase().replace(/^\/+|\/+$/g, "");
+      return (item) => isInDirectory(item.directory, path);
+    }
+    case "status": {
+      if (!QUERY_FIELDS.status.values!.includes(value)) {
+        throw new QuerySyntaxError(
+          `Expected one of ${QUERY_FIELDS.status.values!.join(", ")}`,
+          token.start
+        );
+      }
+      return (item) => item.status === value;
+    }
+    case "mismatch": {
+      if (!QUERY_FIELDS.mismatch.values!.includes(value)) {
+        throw new QuerySyntaxError(
+          `Expected one of ${QUERY_FIELDS.mismatch.values!.join(", ")}`,
+          token.start
+        );
+      }
+      return (item) => item.mismatches.includes(value as QueryMismatch);
+    }
+    case "async": {
+      const expected = parseBoolean(value, token);
+      return (item) => item.isAsync === expected;
+    }
+    case "static": {
+      const expected = parseBoolean(value, token);
+      return (item) =>
+        item.members.some(
+          (member) => "isStatic" in member && member.isStatic
+        ) === expected;
+    }
+    case "returns":
+      return (item) =>
+        item.members.some((member) => includes(member.returns, value));
+    case "param": {
+      const name = normalizeName(value);
+      return (item) =>
+        item.members.some((member) =>
+          member.parameters.some((parameter) =>
+            normalizeName(parameter.name).includes(name)
+          )
+        );
+    }
+    case "lines": {
+      const match = value.match(/^(>=|<=|>|<|=)?(\d+)$/);
+      if (!match) {
+        throw new QuerySyntaxError(
+          `Expected a line count like >50, got "${value}"`,
+          token.start
+        );
+      }
+      const compare = COMPARISONS[match[1] || "="];
+      const limit = Number(match[2]);
+      return (item) =>
+        item.members.some((member) => compare(getLineCount(member), limit));
+    }
+    default:
+      throw new QuerySyntaxError(`Unknown field "${field}"`, token.start);
+  }
+};
+
+// Parses a query such as `class:User -status:common (async:true OR lines:>50)`
+// into a predicate. Terms next to each other are ANDed; OR binds looser than
+// AND, and `-` or NOT negates the term or group that follows. An empty query
+// matches everything.
+export function parseQuery(query: string): QueryMatcher {
+  const tokens = tokenize(query);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const fail = (message: string): never => {
+    throw new QuerySyntaxError(message, peek()?.start ?? query.length);
+  };
+
+  const parseOr = (): QueryMatcher => {
+    const alternatives = [parseAnd()];
+    while (peek()?.type === "or") {
+      position++;
+      alternatives.push(parseAnd());
+    }
+    return alternatives.length === 1
+      ? alternatives[0]
+      : (item) => alternatives.some((matches) => matches(item));
+  };
+
+  const parseAnd = (): QueryMatcher => {
+    const terms = [parseUnary()];
+    while (peek() && peek().type !== "or" && peek().type !== ")") {
+      if (peek().type === "and") position++;
+      terms.push(parseUnary());
+    }
+    return terms.length === 1
+      ? terms[0]
+      : (item) => terms.every((matches) => matches(item));
+  };
+
+  const parseUnary = (): QueryMatcher => {
+    const token = peek();
+    if (!token) {
+      return fail("Expected a search term");
+    }
+    position++;
+    switch (token.type) {
+      case "not": {
+        const negated = parseUnary();
+        return (item) => !negated(item);
+      }
+      case "(": {
+        const group = parseOr();
+        if (peek()?.type !== ")") {
+          return fail("Expected )");
+        }
+        position++;
+        return group;
+      }
+      case "term":
+        return compileTerm(token);
+      default:
+        position--;
+        return fail(`Unexpected ${token.text}`);
+    }
+  };
+
+  if (tokens.length === 0) return () => true;
+  const matcher = parseOr();
+  if (position < tokens.length) {
+    fail(`Unexpected ${peek().text}`);
+  }
+  return matcher;
+}
+
+const getStatus = (ts: unknown, python: unknown): QueryStatus =>
+  ts && python ? "common" : ts ? "ts-only" : "python-only";
+
+const getMismatches = (
+  ts: Method | SDKFunction | undefined,
+  python: Method | SDKFunction | undefined
+): QueryMismatch[] => {
+  if (!ts || !python) return [];
+  return [
+    hasAsyncMismatch(ts, python) && "async",
+    "kind" in ts && "kind" in python && getKindMismatch(ts, python) && "kind",
+  ].filter((mismatch): mismatch is QueryMismatch => !!mismatch);
+};
+
+const isEitherAsync = (
+  ts: Method | SDKFunction | undefined,
+  python: Method | SDKFunction | undefined
+): boolean =>
+  (!!ts && isAsyncMethod(ts, "ts")) ||
+  (!!python && isAsyncMethod(python, "python"));
+
+export function getMethodQueryItem(
+  classPair: ClassPair,
+  methodPair?: MethodPair
+): QueryItem {
+  const sides = methodPair || classPair;
+  return {
+    classNames: Array.from(
+      new Set(
+        [classPair.key, classPair.ts?.name, classPair.python?.name].filter(
+          (name): name is string => !!name
+        )
+      )
+    ),
+    files: [classPair.ts?.file, classPair.python?.file].filter(
+      (file): file is string => !!file
+    ),
+    directory: getPairDirectory(classPair.ts, classPair.python),
+    status: getStatus(sides.ts, sides.python),
+    mismatches: getMismatches(methodPair?.ts, methodPair?.python),
+    isAsync: isEitherAsync(methodPair?.ts, methodPair?.python),
+    members: methodPair
+      ? [methodPair.ts, methodPair.python].filter(
+          (method): method is Method => !!method
+        )
+      : [],
+  };
+}
+
+// A class matches if any of its method pairs does; classes without methods
+// can still match on their name, file or status
+export function getClassQueryItems(
+  classPair: ClassPair,
+  methodPairs: MethodPair[]
+): QueryItem[] {
+  return methodPairs.length === 0
+    ? [getMethodQueryItem(classPair)]
+    : methodPairs.map((methodPair) =>
+        getMethodQueryItem(classPair, methodPair)
+      );
+}
+
+export function getFunctionQueryItem(pair: FunctionPair): QueryItem {
+  const members = [pair.ts, pair.python].filter(
+    (fn): fn is SDKFunction => !!fn
+  );
+  return {
+    classNames: [pair.module],
+    files: members.map((fn) => fn.file),
+    directory: getPairDirectory(pair.ts, pair.python),
+    status: getStatus(pair.ts, pair.python),
+    mismatches: getMismatches(pair.ts, pair.python),
+    isAsync: isEitherAsync(pair.ts, pair.python),
+    members,
+  };
+}
+
+export interface QueryCompletion {
+  // `query.slice(from, to)` is replaced by the chosen option
+  from: number;
+  to: number;
+  options: string[];
+}
+
+// Field names for a word being typed, or a field's values after its colon
+export function getQueryCompletions(
+  query: string,
+  cursor: number
+): QueryCompletion | undefined {
+  let from = cursor;
+  while (from > 0 && !/[\s(]/.test(query[from - 1])) from--;
+  if (query[from] === "-") from++;
+  const word = query.slice(from, cursor);
+  if (!word || word.includes('"')) return undefined;
+
+  const separator = word.indexOf(":");
+  const field = word.slice(0, separator);
+  const options =
+    separator === -1
+      ? Object.keys(QUERY_FIELDS)
+          .filter((field) => field.startsWith(word.toLowerCase()))
+          .map((field) => `${field}:`)
+      : ((isQueryField(field) && QUERY_FIELDS[field].values) || [])
+          .filter((value) => value.startsWith(word.slice(separator + 1)))
+          .map((value) => `${field}:${value}`);
+
+  const useful = options.filter((option) => option !== word);
+  return useful.length > 0 ? { from, to: cursor, options: useful } : undefined;
+}
+
+// Value of the first `field:` term, e.g. the directory picked in the tree
+export function getQueryFieldValue(
+  query: string,
+  field: QueryField
+): string | undefined {
+  return query.match(new RegExp(`(?:^|\\s)${field}:(\\S+)`))?.[1];
+}
+
+// Replaces any `field:` terms with `field:value` at the front of the query,
+// or just removes them when `value` is empty
+export function setQueryField(
+  query: string,
+  field: QueryField,
+  value: string
+): string {
+  const rest = query
+    .replace(new RegExp(`(^|\\s)-?${field}:\\S+`, "g"), "")
+    .trim();
+  return [value && `${field}:${value}`, rest].filter(Boolean).join(" ");
+}
@@ -0,0 +1,146 @@
+import { z } from "astro/zod";
+
+// Shape of `typescript_sdk.json` and `python_sdk.json`, as written by
+// scripts/extract-ts-sdk.mjs and scripts/extract_python_sdk.py. Fields only
+// one extractor writes are optional.
+
+const lineRange = {
+  startLine: z.number().int().positive(),
+  endLine: z.number().int().positive(),
+};
+
+// "" when there is none. TS dumps from before JSDoc was captured have no
+// field at all, so their documentation is unknown rather than missing.
+const docstring = z.string().optional();
+
+const endsAfterStart = (item: { startLine: number; endLine: number }) =>
+  item.endLine >= item.startLine;
+const endsAfterStartError = {
+  message: "endLine is before startLine",
+  path: ["endLine"],
+};
+
+export const parameterSchema = z.object({
+  name: z.string().min(1),
+  type: z.string(),
+});
+
+export const methodSchema = z
+  .object({
+    name: z.string().min(1),
+    kind: z.enum([
+      // TS
+      "method",
+      "constructor",
+      "get",
+      "set",
+      // Python
+      "staticmethod",
+      "classmethod",
+      "property",
+    ]),
+    isStatic: z.boolean(),
+    isAsync: z.boolean(),
+    access: z.enum(["public", "private", "protected"]),
+    parameters: z.array(parameterSchema),
+    // TS constructors and setters have none
+    returns: z.string().optional(),
+    docstring,
+    // Python only
+    file: z.string().optional(),
+    isClassMethod: z.boolean().optional(),
+    decorators: z.array(z.string()).optional(),
+    ...lineRange,
+  })
+  .refine(endsAfterStart, endsAfterStartError);
+
+export const classSchema = z
+  .object({
+    name: z.string().min(1),
+    file: z.string().min(1),
+    abstract: z.boolean(),
+    // TS writes a single base class; Python a comma-joined list, or null
+    extends: z.string().nullish(),
+    implements: z.array(z.string()).nullish(),
+    methods: z.array(methodSchema),
+    docstring,
+    // Python only
+    access: z.string().optional(),
+    ...lineRange,
+  })
+  .refine(endsAfterStart, endsAfterStartError);
+
+export const functionSchema = z
+  .object({
+    name: z.string().min(1),
+    file: z.string().min(1),
+    isExported: z.boolean(),
+    isDefaultExport: z.boolean(),
+    isAsync: z.boolean(),
+    parameters: z.array(parameterSchema),
+    returns: z.string(),
+    docstring,
+    // Python only
+    access: z.string().optional(),
+    ...lineRange,
+  })
+  .refine(endsAfterStart, endsAfterStartError);
+
+// Written by the extractors; older dumps have none, and links then fall back
+// to the default branch
+export const dumpMetaSchema = z.object({
+  // GitHub `owner/name`
+  repo: z.string().regex(/^[\w.-]+\/[\w.-]+$/),
+  // Null when the checkout wasn't a git repository
+  commit: z
+    .string()
+    .regex(/^[0-9a-f]{7,40}$/)
+    .nullable(),
+  generatedAt: z.string().datetime(),
+  tool: z.string(),
+  toolVersion: z.string(),
+});
+
+export const sdkDataSchema = z.object({
+  meta: dumpMetaSchema.optional(),
+  classes: z.array(classSchema),
+  functions: z.array(functionSchema),
+});
+
+export type DumpMeta = z.infer<typeof dumpMetaSchema>;
+export type Parameter = z.infer<typeof parameterSchema>;
+export type Method = z.infer<typeof methodSchema>;
+export type Class = z.infer<typeof classSchema>;
+export type SDKFunction = z.infer<typeof functionSchema>;
+export type SDKData = z.infer<typeof sdkDataSchema>;
+
+// `["classes", 3, "methods", 0, "startLine"]` -> `classes[3].methods[0].startLine`
+const formatPath = (path: Array<string | number>) =>
+  path
+    .map((key, index) =>
+      typeof key === "number" ? `[${key}]` : index === 0 ? key : `.${key}`
+    )
+    .join("");
+
+export class SDKDataError extends Error {
+  constructor(source: string, issues: z.ZodIssue[]) {
+    const lines = issues
+      .slice(0, 20)
+      .map((issue) => `  ${formatPath(issue.path)}: ${issue.message}`);
+    if (issues.length > lines.length) {
+      lines.push(`  ...and ${issues.length - lines.length} more`);
+    }
+    super(`${source} does not match the SDK dump schema:\n${lines.join("\n")}`);
+    this.name = "SDKDataError";
+  }
+}
+
+// Validates a dump at build time; `source` names the file in the error,
+// e.g. `classes[3].methods[0].startLine: Expected number, received string`
+export function parseSDKData(data: unknown, source: string): SDKData {
+  const result = sdkDataSchema.safeParse(data);
+  if (!result.success) {
+    throw new SDKDataError(source, result.error.issues);
+  }
+  return result.data;
+}
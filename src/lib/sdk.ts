@@ -0,0 +1,70 @@
+import type { DumpMeta } from "./schema";
+
+export type {
+  Class,
+  DumpMeta,
+  Method,
+  Parameter,
+  SDKData,
+  SDKFunction,
+} from "./schema";
+
+export type SDKName = "ts" | "python";
+
+export function getCleanFilePath(filePath: string, sdkName: string): string {
+  if (sdkName === "ts") {
+    return filePath.replace(/^protocol-v2\/sdk\/src\//, "");
+  } else {
+    return filePath.replace(/^driftpy\//, "");
+  }
+}
+
+const DEFAULT_REPOS: Record<SDKName, string> = {
+  ts: "drift-labs/protocol-v2",
+  python: "drift-labs/driftpy",
+};
+
+const SOURCE_ROOTS: Record<SDKName, string> = {
+  ts: "sdk/src",
+  python: "src/driftpy",
+};
+
+export function getSourceRepo(sdkName: string, meta?: DumpMeta): string {
+  return meta?.repo || DEFAULT_REPOS[sdkName as SDKName];
+}
+
+// The commit the dump was extracted from, so line numbers keep matching
+// after upstream moves on; older dumps without one use the default branch
+export function getSourceRef(meta?: DumpMeta): string {
+  return meta?.commit || "master";
+}
+
+// GitHub link to either SDK's source root
+export function getSourceRootUrl(sdkName: string, meta?: DumpMeta): string {
+  return `https://github.com/${getSourceRepo(
+    sdkName,
+    meta
+  )}/tree/${getSourceRef(meta)}/${SOURCE_ROOTS[sdkName as SDKName]}`;
+}
+
+// GitHub deep link to a line in either SDK's repository
+export function getSourceUrl(
+  filePath: string,
+  sdkName: string,
+  line: number = 1,
+  meta?: DumpMeta
+): string {
+  return `https://github.com/${getSourceRepo(
+    sdkName,
+    meta
+  )}/blob/${getSourceRef(meta)}/${
+    SOURCE_ROOTS[sdkName as SDKName]
+  }/${getCleanFilePath(filePath, sdkName)}#L${line}`;
+}
+
+export function getLineCount(item: {
+  startLine: number;
+  endLine: number;
+}): number {
+  return item.endLine - item.startLine + 1;
+}
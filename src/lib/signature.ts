@@ -0,0 +1,188 @@
+import { isAsyncMethod } from "./kinds";
+import type { Method } from "./sdk";
+import { areTypesEquivalent } from "./typeEquivalence";
+
+export interface SignatureParameter {
+  name: string;
+  type?: string;
+}
+
+export interface ParameterDiff {
+  name: string;
+  tsType?: string;
+  pythonType?: string;
+}
+
+export interface SignatureDiff {
+  // Parameters the TS method takes that the Python port dropped
+  missingParameters: ParameterDiff[];
+  // Parameters only the Python port takes
+  extraParameters: ParameterDiff[];
+  typeMismatches: ParameterDiff[];
+  returnMismatch?: { tsType?: string; pythonType?: string };
+}
+
+// Parameter names are compared case- and underscore-insensitively, with the
+// leading underscore TS uses for unused parameters stripped.
+export function normalizeParameterName(name: string): string {
+  return name.replace(/^_+/, "").replace(/_/g, "").toLowerCase();
+}
+
+// Flattens a method's parameters for comparison: Python's `self`/`cls` are
+// dropped and TS destructured option objects (`{ marketIndex, slot }`) are
+// expanded into their individual names, since driftpy usually takes those as
+// separate keyword arguments.
+export function getSignatureParameters(
+  method: Method,
+  sdkName: string
+): SignatureParameter[] {
+  const parameters = method.parameters || [];
+
+  if (sdkName === "python") {
+    return parameters.filter(
+      (parameter) => parameter.name !== "self" && parameter.name !== "cls"
+    );
+  }
+
+  return parameters.flatMap((parameter) => {
+    if (!parameter.name.startsWith("{")) return [parameter];
+    return parameter.name
+      .replace(/\/\/.*$/gm, "")
+      .replace(/^\{|\}$/g, "")
+      .split(",")
+      .map((field) => field.split(/[=:]/)[0].trim())
+      .filter((field) => /^[A-Za-z_$][\w$]*$/.test(field))
+      .map((field) => ({ name: field }));
+  });
+}
+
+export function diffSignatures(
+  tsMethod: Method,
+  pythonMethod: Method
+): SignatureDiff {
+  const tsParameters = getSignatureParameters(tsMethod, "ts");
+  const pythonParameters = getSignatureParameters(pythonMethod, "python");
+
+  const pythonByName = new Map(
+    pythonParameters.map((parameter) => [
+      normalizeParameterName(parameter.name),
+      parameter,
+    ])
+  );
+  const tsNames = new Set(
+    tsParameters.map((parameter) => normalizeParameterName(parameter.name))
+  );
+
+  const diff: SignatureDiff = {
+    missingParameters: [],
+    extraParameters: [],
+    typeMismatches: [],
+  };
+
+  tsParameters.forEach((parameter) => {
+    const pythonParameter = pythonByName.get(
+      normalizeParameterName(parameter.name)
+    );
+    if (!pythonParameter) {
+      diff.missingParameters.push({
+        name: parameter.name,
+        tsType: parameter.type,
+      });
+    } else if (
+      !areTypesEquivalent(parameter.type, pythonParameter.type, {
+        ignoreOptional: true,
+      })
+    ) {
+      diff.typeMismatches.push({
+        name: parameter.name,
+        tsType: parameter.type,
+        pythonType: pythonParameter.type,
+      });
+    }
+  });
+
+  pythonParameters.forEach((parameter) => {
+    if (!tsNames.has(normalizeParameterName(parameter.name))) {
+      diff.extraParameters.push({
+        name: parameter.name,
+        pythonType: parameter.type,
+      });
+    }
+  });
+
+  // driftpy annotates many returns `Optional[...]` where TS leaves out
+  // `| undefined`, so nullability alone isn't a mismatch there either
+  if (
+    !areTypesEquivalent(tsMethod.returns, pythonMethod.returns, {
+      ignoreOptional: true,
+    })
+  ) {
+    diff.returnMismatch = {
+      tsType: tsMethod.returns,
+      pythonType: pythonMethod.returns,
+    };
+  }
+
+  return diff;
+}
+
+const formatParameters = (method: Method) =>
+  (method.parameters || [])
+    .map((parameter) =>
+      parameter.type ? `${parameter.name}: ${parameter.type}` : parameter.name
+    )
+    .join(", ");
+
+// `(a: A, b: B) => R`, using the types as written in the dump
+export function formatSignature(method: Method): string {
+  return `(${formatParameters(method)})${
+    method.returns ? ` => ${method.returns}` : ""
+  }`;
+}
+
+// The method as declared in its own language, e.g.
+// `async fetch(subAccountId: number): Promise<void>` or
+// `async def fetch(self, sub_account_id: int) -> None`
+export function formatDeclaration(method: Method, sdkName: string): string {
+  if (sdkName === "python") {
+    return `${method.isAsync ? "async " : ""}def ${
+      method.name
+    }(${formatParameters(method)})${
+      method.returns ? ` -> ${method.returns}` : ""
+    }`;
+  }
+  const modifiers = [
+    method.access !== "public" && method.access,
+    method.isStatic && "static",
+    method.isAsync && "async",
+    (method.kind === "get" || method.kind === "set") && method.kind,
+  ].filter(Boolean);
+  return `${modifiers.map((modifier) => `${modifier} `).join("")}${
+    method.name
+  }(${formatParameters(method)})${method.returns ? `: ${method.returns}` : ""}`;
+}
+
+// Modifiers that change how a method is called, named the same for both SDKs
+export function getMethodFlags(method: Method, sdkName: string): string[] {
+  const flags = new Set<string>();
+  if (isAsyncMethod(method, sdkName)) flags.add("async");
+  if (method.isStatic || method.kind === "staticmethod") flags.add("static");
+  if (method.isClassMethod || method.kind === "classmethod") {
+    flags.add("classmethod");
+  }
+  if (method.kind === "property" || method.kind === "get") {
+    flags.add("property");
+  }
+  if (method.kind === "set") flags.add("setter");
+  if (method.access && method.access !== "public") flags.add(method.access);
+  return Array.from(flags);
+}
+
+export function hasSignatureMismatch(diff: SignatureDiff): boolean {
+  return (
+    diff.missingParameters.length > 0 ||
+    diff.extraParameters.length > 0 ||
+    diff.typeMismatches.length > 0 ||
+    !!diff.returnMismatch
+  );
+}
@@ -0,0 +1,143 @@
+import currentTsData from "@/data/typescript_sdk.json";
+import currentPythonData from "@/data/python_sdk.json";
+import { createMatcher } from "./matching";
+import {
+  getClassParity,
+  getOverallParity,
+  type Parity,
+  type ParityWeighting,
+} from "./parity";
+import { parseSDKData } from "./schema";
+import type { SDKData, SDKName } from "./sdk";
+
+export interface Snapshot {
+  // `YYYY-MM-DD` directory name, or "current" for the live dumps
+  date: string;
+  tsData: SDKData;
+  pythonData: SDKData;
+}
+
+export interface SnapshotSummary {
+  date: string;
+  parity: Parity;
+  commonClasses: number;
+  // Keyed by class pair key; only classes that exist in TS
+  classParity: Map<string, Parity>;
+}
+
+export interface SideChanges {
+  // `Class.method` names
+  added: string[];
+  removed: string[];
+}
+
+export interface SnapshotChanges {
+  from: string;
+  to: string;
+  ts: SideChanges;
+  python: SideChanges;
+}
+
+export const CURRENT_SNAPSHOT = "current";
+
+const DUMP_FILES: Record<SDKName, string> = {
+  ts: "typescript_sdk.json",
+  python: "python_sdk.json",
+};
+
+// Validating every dump is slow enough to be worth doing once per build
+let snapshots: Snapshot[] | undefined;
+
+export function loadSnapshots(): Snapshot[] {
+  if (!snapshots) snapshots = readSnapshots();
+  return snapshots;
+}
+
+// Dated copies of both dumps live in `src/data/snapshots/<YYYY-MM-DD>/`,
+// next to the live dumps in `src/data/`. A snapshot is only used when it has
+// both files. The glob is only expanded by Vite, so it stays in here to keep
+// the rest of the module usable outside a build.
+function readSnapshots(): Snapshot[] {
+  const snapshotFiles = import.meta.glob<unknown>(
+    "../data/snapshots/*/*.json",
+    { eager: true, import: "default" }
+  );
+  const byDate = new Map<string, Partial<Record<SDKName, SDKData>>>();
+  Object.entries(snapshotFiles).forEach(([path, data]) => {
+    const [date, file] = path.split("/").slice(-2);
+    const sdkName = (Object.keys(DUMP_FILES) as SDKName[]).find(
+      (name) => DUMP_FILES[name] === file
+    );
+    if (!sdkName) return;
+    byDate.set(date, {
+      ...byDate.get(date),
+      [sdkName]: parseSDKData(data, `snapshots/${date}/${file}`),
+    });
+  });
+
+  const dated: Snapshot[] = Array.from(byDate.entries())
+    .filter(([, dumps]) => dumps.ts && dumps.python)
+    .map(([date, dumps]) => ({
+      date,
+      tsData: dumps.ts!,
+      pythonData: dumps.python!,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return [
+    ...dated,
+    {
+      date: CURRENT_SNAPSHOT,
+      tsData: parseSDKData(currentTsData, DUMP_FILES.ts),
+      pythonData: parseSDKData(currentPythonData, DUMP_FILES.python),
+    },
+  ];
+}
+
+export function summarizeSnapshot(
+  snapshot: Snapshot,
+  weighting: ParityWeighting = "methods"
+): SnapshotSummary {
+  const matcher = createMatcher(snapshot.tsData, snapshot.pythonData);
+  return {
+    date: snapshot.date,
+    parity: getOverallParity(matcher, weighting),
+    commonClasses: matcher.classPairs.filter((pair) => pair.ts && pair.python)
+      .length,
+    classParity: new Map(
+      matcher.classPairs
+        .filter((pair) => pair.ts)
+        .map((pair) => [pair.key, getClassParity(matcher, pair.key, weighting)])
+    ),
+  };
+}
+
+const getMethodNames = (data: SDKData): Set<string> =>
+  new Set(
+    data.classes.flatMap((cls) =>
+      cls.methods
+        .filter((method) => method.name !== "constructor")
+        .map((method) => `${cls.name}.${method.name}`)
+    )
+  );
+
+const diffNames = (before: Set<string>, after: Set<string>): SideChanges => ({
+  added: Array.from(after)
+    .filter((name) => !before.has(name))
+    .sort(),
+  removed: Array.from(before)
+    .filter((name) => !after.has(name))
+    .sort(),
+});
+
+export function diffSnapshots(from: Snapshot, to: Snapshot): SnapshotChanges {
+  return {
+    from: from.date,
+    to: to.date,
+    ts: diffNames(getMethodNames(from.tsData), getMethodNames(to.tsData)),
+    python: diffNames(
+      getMethodNames(from.pythonData),
+      getMethodNames(to.pythonData)
+    ),
+  };
+}
@@ -0,0 +1,87 @@
+import {
+  getCleanFilePath,
+  getSourceRef,
+  getSourceRepo,
+  type DumpMeta,
+} from "./sdk";
+
+// Where the "View" buttons get source code from. Each provider returns the
+// whole file so the snippet can be expanded with surrounding context.
+export interface SnippetProvider {
+  name: string;
+  // `meta` is the dump's provenance, used to read the matching commit
+  fetchSource: (
+    filePath: string,
+    sdkName: string,
+    meta?: DumpMeta
+  ) => Promise<string>;
+}
+
+// URL of a source file copied into the build by
+// src/pages/sources/[sdk]/[...path].ts. The `.txt` suffix keeps static hosts
+// and the dev server from treating `.ts` files as modules.
+export function getStaticSourcePath(filePath: string, sdkName: string): string {
+  return `/sources/${sdkName}/${getCleanFilePath(filePath, sdkName)}.txt`;
+}
+
+export const staticSnippetProvider: SnippetProvider = {
+  name: "static",
+  fetchSource: async (filePath, sdkName) => {
+    const response = await fetch(getStaticSourcePath(filePath, sdkName));
+    if (!response.ok) {
+      throw new Error(`No bundled source for ${filePath}: ${response.status}`);
+    }
+    return response.text();
+  },
+};
+
+// Reads the commit the dump was made from, or the default branch for dumps
+// without metadata. The unauthenticated API allows about 60 requests an hour.
+export const githubSnippetProvider: SnippetProvider = {
+  name: "github",
+  fetchSource: async (filePath, sdkName, meta) => {
+    const cleanPath = getCleanFilePath(filePath, sdkName);
+    const root = sdkName === "ts" ? "sdk/src" : "src/driftpy";
+
+    const response = await fetch(
+      `https://api.github.com/repos/${getSourceRepo(
+        sdkName,
+        meta
+      )}/contents/${root}/${cleanPath}?ref=${getSourceRef(meta)}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return atob(data.content);
+  },
+};
+
+// Tries each provider in order and returns the first file found
+export function createSnippetProvider(
+  providers: SnippetProvider[]
+): SnippetProvider {
+  return {
+    name: providers.map((provider) => provider.name).join("+"),
+    fetchSource: async (filePath, sdkName, meta) => {
+      const errors: unknown[] = [];
+      for (const provider of providers) {
+        try {
+          return await provider.fetchSource(filePath, sdkName, meta);
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+      throw new AggregateError(errors, `Could not load ${filePath}`);
+    },
+  };
+}
+
+// Set PUBLIC_GITHUB_SNIPPETS=false to only ever show bundled sources
+export const defaultSnippetProvider = createSnippetProvider(
+  import.meta.env.PUBLIC_GITHUB_SNIPPETS === "false"
+    ? [staticSnippetProvider]
+    : [staticSnippetProvider, githubSnippetProvider]
+);
@@ -0,0 +1,71 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { getCleanFilePath, type SDKData, type SDKName } from "./sdk";
+
+// Local checkouts to copy snippet sources from at build time, laid out like
+// the extractors expect: TS_SDK_PATH=../protocol-v2 PYTHON_SDK_PATH=../driftpy
+const CHECKOUT_ENV: Record<SDKName, string> = {
+  ts: "TS_SDK_PATH",
+  python: "PYTHON_SDK_PATH",
+};
+
+const SOURCE_ROOTS: Record<SDKName, string> = {
+  ts: "sdk/src",
+  python: "src/driftpy",
+};
+
+export interface LocalSourceFile {
+  // Path relative to the SDK's source root, as used in snippet URLs
+  cleanPath: string;
+  absolutePath: string;
+}
+
+const git = (checkout: string, args: string[]) =>
+  execFileSync("git", ["-C", checkout, ...args], {
+    encoding: "utf-8",
+    stdio: ["ignore", "pipe", "ignore"],
+  }).trim();
+
+// Bundled snippets should come from the commit the dump was extracted from
+function warnIfCheckoutMoved(checkout: string, data: SDKData) {
+  const commit = data.meta?.commit;
+  if (!commit) return;
+  try {
+    // A directory nested in another repository would report that one's HEAD
+    const toplevel = git(checkout, ["rev-parse", "--show-toplevel"]);
+    if (fs.realpathSync(toplevel) !== fs.realpathSync(checkout)) return;
+    const head = git(checkout, ["rev-parse", "HEAD"]);
+    if (!head.startsWith(commit)) {
+      console.warn(
+        `${checkout} is at ${head}, but the dump was extracted from ${commit}; snippets may not match`
+      );
+    }
+  } catch {
+    // Not a git checkout; nothing to compare against
+  }
+}
+
+// Every file the dump references that exists in the local checkout, or
+// nothing if no checkout was configured
+export function getLocalSourceFiles(
+  data: SDKData,
+  sdkName: SDKName
+): LocalSourceFile[] {
+  const checkout = process.env[CHECKOUT_ENV[sdkName]];
+  if (!checkout) return [];
+  warnIfCheckoutMoved(checkout, data);
+
+  const files = new Set(
+    [...data.classes, ...data.functions].map((item) => item.file)
+  );
+  return Array.from(files)
+    .map((file) => {
+      const cleanPath = getCleanFilePath(file, sdkName);
+      return {
+        cleanPath,
+        absolutePath: path.resolve(checkout, SOURCE_ROOTS[sdkName], cleanPath),
+      };
+    })
+    .filter((file) => fs.existsSync(file.absolutePath));
+}
@@ -0,0 +1,118 @@
+import { stripOptionalPrefix, tokenizeName } from "./matching";
+import { getLineCount, type Method } from "./sdk";
+import { getSignatureParameters, normalizeParameterName } from "./signature";
+
+export interface MatchSuggestion {
+  method: Method;
+  // Weighted confidence in [0, 1]
+  score: number;
+  nameScore: number;
+  parameterScore: number;
+  lengthScore: number;
+}
+
+const NAME_WEIGHT = 0.6;
+const PARAMETER_WEIGHT = 0.25;
+const LENGTH_WEIGHT = 0.15;
+const MIN_SCORE = 0.4;
+
+const getNameTokens = (name: string): string[] => {
+  const tokens = tokenizeName(name);
+  return stripOptionalPrefix(name) ? tokens.slice(1) : tokens;
+};
+
+// Levenshtein distance where each insert/delete/substitute acts on a whole
+// word, so `placePerpOrder` vs `place_spot_order` is one edit away.
+const tokenEditDistance = (a: string[], b: string[]): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export function getNameSimilarity(a: string, b: string): number {
+  const aTokens = getNameTokens(a);
+  const bTokens = getNameTokens(b);
+  const length = Math.max(aTokens.length, bTokens.length);
+  if (length === 0) return 0;
+  return 1 - tokenEditDistance(aTokens, bTokens) / length;
+}
+
+// Jaccard overlap of normalized parameter names
+const getParameterSimilarity = (
+  method: Method,
+  sdkName: string,
+  candidate: Method,
+  candidateSdkName: string
+): number => {
+  const names = new Set(
+    getSignatureParameters(method, sdkName).map((p) =>
+      normalizeParameterName(p.name)
+    )
+  );
+  const candidateNames = new Set(
+    getSignatureParameters(candidate, candidateSdkName).map((p) =>
+      normalizeParameterName(p.name)
+    )
+  );
+  if (names.size === 0 && candidateNames.size === 0) return 1;
+
+  const shared = Array.from(names).filter((name) =>
+    candidateNames.has(name)
+  ).length;
+  return shared / (names.size + candidateNames.size - shared);
+};
+
+const getLengthSimilarity = (a: Method, b: Method): number => {
+  const aLength = getLineCount(a);
+  const bLength = getLineCount(b);
+  return Math.min(aLength, bLength) / Math.max(aLength, bLength);
+};
+
+// Ranks unmatched methods from the other SDK as possible counterparts of
+// `method`, best first. Candidates sharing no name words, or scoring below
+// MIN_SCORE, are dropped.
+export function suggestMatches(
+  method: Method,
+  sdkName: string,
+  candidates: Method[],
+  limit = 3
+): MatchSuggestion[] {
+  const candidateSdkName = sdkName === "ts" ? "python" : "ts";
+
+  return candidates
+    .map((candidate) => {
+      const nameScore = getNameSimilarity(method.name, candidate.name);
+      const parameterScore = getParameterSimilarity(
+        method,
+        sdkName,
+        candidate,
+        candidateSdkName
+      );
+      const lengthScore = getLengthSimilarity(method, candidate);
+      return {
+        method: candidate,
+        score:
+          nameScore * NAME_WEIGHT +
+          parameterScore * PARAMETER_WEIGHT +
+          lengthScore * LENGTH_WEIGHT,
+        nameScore,
+        parameterScore,
+        lengthScore,
+      };
+    })
+    .filter(
+      (suggestion) => suggestion.nameScore > 0 && suggestion.score >= MIN_SCORE
+    )
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,314 @@
+import defaultConfig from "@/data/type-equivalence.json";
+
+export type TypeLanguage = "ts" | "python";
+
+export type TypeNode =
+  | { kind: "any" }
+  | { kind: "none" }
+  | { kind: "named"; name: string; args: TypeNode[] }
+  | { kind: "array"; element: TypeNode }
+  | { kind: "union"; members: TypeNode[] };
+
+export interface TypeEquivalenceConfig {
+  // Names that match any other type (`any`, `Any`, bare type variables)
+  wildcards: string[];
+  // Names meaning "no value" (`undefined`, `void`, `None`)
+  nullish: string[];
+  // Single-argument wrappers compared by their argument (`Promise<T>`)
+  unwrap: string[];
+  // `Optional[T]`-style wrappers, read as `T | None`
+  optional: string[];
+  // `Union[A, B]`-style wrappers, read as `A | B`
+  unions: string[];
+  // Sequence types, all read as `T[]`
+  arrays: string[];
+  // Key/value containers, compared by their type arguments
+  maps: string[];
+  // Function types; their parameter lists are not compared
+  callables: string[];
+  // Canonical name -> every spelling of that type in either SDK
+  equivalents: Record<string, string[]>;
+}
+
+export interface TypeEquivalenceOptions {
+  // Treat `T | None` and `T` as the same type. The TS dump doesn't record
+  // optional (`?`) parameters, and the SDKs disagree on which returns are
+  // nullable, so signature comparisons need this.
+  ignoreOptional?: boolean;
+}
+
+interface TypeTable {
+  wildcards: Set<string>;
+  nullish: Set<string>;
+  unwrap: Set<string>;
+  optional: Set<string>;
+  unions: Set<string>;
+  arrays: Set<string>;
+  maps: Set<string>;
+  callables: Set<string>;
+  canonical: Map<string, string>;
+}
+
+const lower = (names: string[]) =>
+  new Set(names.map((name) => name.toLowerCase()));
+
+// Lookups are case-insensitive so `list`/`List` and `dict`/`Dict` don't need
+// separate entries.
+export function createTypeTable(config: TypeEquivalenceConfig): TypeTable {
+  const canonical = new Map<string, string>();
+  Object.entries(config.equivalents).forEach(([name, spellings]) => {
+    [name, ...spellings].forEach((spelling) =>
+      canonical.set(spelling.toLowerCase(), name.toLowerCase())
+    );
+  });
+
+  return {
+    wildcards: lower(config.wildcards),
+    nullish: lower(config.nullish),
+    unwrap: lower(config.unwrap),
+    optional: lower(config.optional),
+    unions: lower(config.unions),
+    arrays: lower(config.arrays),
+    maps: lower(config.maps),
+    callables: lower(config.callables),
+    canonical,
+  };
+}
+
+const defaultTable = createTypeTable(defaultConfig);
+
+const tokenize = (text: string): string[] =>
+  text.match(/[A-Za-z_$][\w$.]*|\d+|=>|\.\.\.|[<>[\](){}|,?:&=;'"]/g) || [];
+
+// Recursive-descent parser over both syntaxes: TS generics use `<...>` and
+// `T[]`, Python generics use `[...]`. Anything the grammar doesn't cover
+// (object literals, conditional types, function signatures) parses as `any`
+// rather than failing, since the dumps contain plenty of those.
+export function parseType(text: string, language: TypeLanguage): TypeNode {
+  const source = text.replace(/\breadonly\s+/g, "").trim();
+  if (!source) return { kind: "any" };
+
+  // TS function types: `(a: A) => B`
+  if (language === "ts" && /^\(.*\)\s*=>/s.test(source)) {
+    return { kind: "named", name: "Callable", args: [] };
+  }
+  // TS conditional types and inline object types
+  if (
+    language === "ts" &&
+    (source.startsWith("{") || /\bextends\b.*\?/s.test(source))
+  ) {
+    return { kind: "any" };
+  }
+
+  const tokens = tokenize(source);
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const genericOpen = language === "ts" ? "<" : "[";
+  const genericClose = language === "ts" ? ">" : "]";
+
+  const parseUnion = (): TypeNode => {
+    const members = [parsePostfix()];
+    while (peek() === "|") {
+      next();
+      members.push(parsePostfix());
+    }
+    return members.length === 1 ? members[0] : { kind: "union", members };
+  };
+
+  const parseList = (close: string): TypeNode[] => {
+    const items: TypeNode[] = [];
+    while (peek() !== undefined && peek() !== close) {
+      items.push(parseUnion());
+      if (peek() === ",") next();
+      else break;
+    }
+    if (peek() === close) next();
+    return items;
+  };
+
+  const parsePrimary = (): TypeNode => {
+    const token = next();
+    if (token === undefined) return { kind: "any" };
+    if (token === "(") {
+      const inner = parseUnion();
+      if (peek() === ")") next();
+      return inner;
+    }
+    // Python's `Callable[[A, B], R]` argument list
+    if (token === "[") {
+      parseList("]");
+      return { kind: "any" };
+    }
+    if (!/^[A-Za-z_$]/.test(token)) return { kind: "any" };
+
+    const name = token.split(".").pop() || token;
+    let args: TypeNode[] = [];
+    if (peek() === genericOpen && tokens[position + 1] !== "]") {
+      next();
+      args = parseList(genericClose);
+    }
+    return { kind: "named", name, args };
+  };
+
+  const parsePostfix = (): TypeNode => {
+    let node = parsePrimary();
+    while (peek() === "[" && tokens[position + 1] === "]") {
+      position += 2;
+      node = { kind: "array", element: node };
+    }
+    return node;
+  };
+
+  return parseUnion();
+}
+
+// Maps raw parse trees onto canonical types using the equivalence table:
+// wrappers are unwrapped, containers collapse to `array`, and unions are
+// flattened and de-duplicated.
+export function normalizeType(
+  node: TypeNode,
+  table: TypeTable = defaultTable
+): TypeNode {
+  switch (node.kind) {
+    case "any":
+    case "none":
+      return node;
+    case "array":
+      return { kind: "array", element: normalizeType(node.element, table) };
+    case "union": {
+      const members: TypeNode[] = [];
+      const seen = new Set<string>();
+      const add = (member: TypeNode) => {
+        if (member.kind === "union") {
+          member.members.forEach(add);
+          return;
+        }
+        const key = formatType(member);
+        if (!seen.has(key)) {
+          seen.add(key);
+          members.push(member);
+        }
+      };
+      node.members.forEach((member) => add(normalizeType(member, table)));
+      if (members.some((member) => member.kind === "any")) {
+        return { kind: "any" };
+      }
+      return members.length === 1 ? members[0] : { kind: "union", members };
+    }
+    case "named": {
+      const name = node.name.toLowerCase();
+      const args = node.args.map((arg) => normalizeType(arg, table));
+
+      if (table.wildcards.has(name)) return { kind: "any" };
+      if (table.nullish.has(name)) return { kind: "none" };
+      if (table.unwrap.has(name)) return args[0] || { kind: "any" };
+      if (table.optional.has(name)) {
+        return normalizeType(
+          {
+            kind: "union",
+            members: [args[0] || { kind: "any" }, { kind: "none" }],
+          },
+          table
+        );
+      }
+      if (table.unions.has(name)) {
+        return normalizeType({ kind: "union", members: args }, table);
+      }
+      if (table.arrays.has(name)) {
+        return { kind: "array", element: args[0] || { kind: "any" } };
+      }
+      if (table.maps.has(name)) return { kind: "named", name: "map", args };
+      if (table.callables.has(name)) {
+        return { kind: "named", name: "callable", args: [] };
+      }
+
+      return {
+        kind: "named",
+        name: table.canonical.get(name) || name,
+        args,
+      };
+    }
+  }
+}
+
+export function formatType(node: TypeNode): string {
+  switch (node.kind) {
+    case "any":
+      return "any";
+    case "none":
+      return "none";
+    case "array":
+      return `${formatType(node.element)}[]`;
+    case "union":
+      return node.members.map(formatType).join(" | ");
+    case "named":
+      return node.args.length
+        ? `${node.name}<${node.args.map(formatType).join(", ")}>`
+        : node.name;
+  }
+}
+
+const stripNone = (node: TypeNode): TypeNode => {
+  if (node.kind !== "union") return node;
+  const members = node.members.filter((member) => member.kind !== "none");
+  if (members.length === 0) return { kind: "none" };
+  return members.length === 1 ? members[0] : { kind: "union", members };
+};
+
+const isEquivalent = (
+  a: TypeNode,
+  b: TypeNode,
+  options: TypeEquivalenceOptions
+): boolean => {
+  if (options.ignoreOptional) {
+    a = stripNone(a);
+    b = stripNone(b);
+  }
+  if (a.kind === "any" || b.kind === "any") return true;
+
+  if (a.kind === "union" || b.kind === "union") {
+    const aMembers = a.kind === "union" ? a.members : [a];
+    const bMembers = b.kind === "union" ? b.members : [b];
+    return (
+      aMembers.every((member) =>
+        bMembers.some((other) => isEquivalent(member, other, options))
+      ) &&
+      bMembers.every((member) =>
+        aMembers.some((other) => isEquivalent(member, other, options))
+      )
+    );
+  }
+
+  if (a.kind !== b.kind) return false;
+  if (a.kind === "none") return true;
+  if (a.kind === "array" && b.kind === "array") {
+    return isEquivalent(a.element, b.element, options);
+  }
+  if (a.kind === "named" && b.kind === "named") {
+    if (a.name !== b.name) return false;
+    // A bare `List`/`dict` says nothing about its arguments
+    if (a.args.length === 0 || b.args.length === 0) return true;
+    return a.args.every(
+      (arg, index) =>
+        index >= b.args.length || isEquivalent(arg, b.args[index], options)
+    );
+  }
+  return false;
+};
+
+export function areTypesEquivalent(
+  tsType: string | undefined,
+  pythonType: string | undefined,
+  options: TypeEquivalenceOptions = {},
+  table: TypeTable = defaultTable
+): boolean {
+  // Untyped parameters can't be compared
+  if (!tsType || !pythonType) return true;
+
+  return isEquivalent(
+    normalizeType(parseType(tsType, "ts"), table),
+    normalizeType(parseType(pythonType, "python"), table),
+    options
+  );
+}
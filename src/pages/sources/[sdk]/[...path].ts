@@ -0,0 +1,28 @@
+import fs from "node:fs";
+import type { APIRoute, GetStaticPaths } from "astro";
+import tsData from "@/data/typescript_sdk.json";
+import pythonData from "@/data/python_sdk.json";
+import { parseSDKData } from "@/lib/schema";
+import type { SDKName } from "@/lib/sdk";
+import { getLocalSourceFiles } from "@/lib/sources";
+
+// Copies each source file the dumps reference into the build as
+// `/sources/<sdk>/<path>.txt`, so snippets load without GitHub. Files are
+// only emitted when TS_SDK_PATH / PYTHON_SDK_PATH point at local checkouts.
+export const getStaticPaths: GetStaticPaths = () => {
+  const dumps: Array<[SDKName, unknown, string]> = [
+    ["ts", tsData, "typescript_sdk.json"],
+    ["python", pythonData, "python_sdk.json"],
+  ];
+  return dumps.flatMap(([sdk, data, source]) =>
+    getLocalSourceFiles(parseSDKData(data, source), sdk).map((file) => ({
+      params: { sdk, path: `${file.cleanPath}.txt` },
+      props: { absolutePath: file.absolutePath },
+    }))
+  );
+};
+
+export const GET: APIRoute = ({ props }) =>
+  new Response(fs.readFileSync(props.absolutePath, "utf-8"), {
+    headers: { "Content-Type": "text/plain; charset=utf-8" },
+  });
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  getMethodAccess,
+  isAccessIncluded,
+  isMethodIncluded,
+} from "../src/lib/access.ts";
+import { createMatcher } from "../src/lib/matching.ts";
+import { cls, method, NO_ALIASES, pythonFile, tsFile } from "./helpers.mjs";
+
+describe("getMethodAccess", () => {
+  it("classifies Python methods by their leading underscores", () => {
+    assert.equal(getMethodAccess(method("__init__"), "python"), "private");
+    assert.equal(getMethodAccess(method("__cache"), "python"), "private");
+    assert.equal(getMethodAccess(method("_fetch"), "python"), "protected");
+    assert.equal(getMethodAccess(method("fetch"), "python"), "public");
+  });
+
+  it("keeps the dump's access for Python names matching no rule", () => {
+    const rules = {
+      python: [{ pattern: "^_", access: "private" }],
+      ts: { private: "private", "#private": "private", protected: "protected" },
+    };
+    assert.equal(getMethodAccess(method("_fetch"), "python", rules), "private");
+    assert.equal(
+      getMethodAccess(
+        method("fetch", { access: "protected" }),
+        "python",
+        rules
+      ),
+      "protected"
+    );
+  });
+
+  it("remaps TS modifiers and private names through the rules", () => {
+    const rules = {
+      python: [],
+      ts: { private: "protected", "#private": "private", protected: "public" },
+    };
+    const fetch = (access) => method("fetch", { access });
+    assert.equal(getMethodAccess(fetch("public"), "ts", rules), "public");
+    assert.equal(getMethodAccess(fetch("protected"), "ts", rules), "public");
+    assert.equal(getMethodAccess(fetch("private"), "ts", rules), "protected");
+    assert.equal(getMethodAccess(method("#cache"), "ts", rules), "private");
+  });
+
+  it("takes TS modifiers as they are by default", () => {
+    const fetch = (access) => method("fetch", { access });
+    assert.equal(getMethodAccess(fetch("protected"), "ts"), "protected");
+    assert.equal(getMethodAccess(fetch("private"), "ts"), "private");
+    assert.equal(getMethodAccess(method("#cache"), "ts"), "private");
+    // Underscores only mean something in Python
+    assert.equal(getMethodAccess(method("_fetch"), "ts"), "public");
+  });
+});
+
+describe("isAccessIncluded", () => {
+  it("includes everything at least as visible as the filter", () => {
+    assert.equal(isAccessIncluded("public", "public"), true);
+    assert.equal(isAccessIncluded("protected", "public"), false);
+    assert.equal(isAccessIncluded("private", "public"), false);
+    assert.equal(isAccessIncluded("public", "protected"), true);
+    assert.equal(isAccessIncluded("protected", "protected"), true);
+    assert.equal(isAccessIncluded("private", "protected"), false);
+    assert.equal(isAccessIncluded("private", "private"), true);
+  });
+
+  it("applies to methods through their access", () => {
+    assert.equal(isMethodIncluded(method("_fetch"), "python", "public"), false);
+    assert.equal(
+      isMethodIncluded(method("_fetch"), "python", "protected"),
+      true
+    );
+  });
+});
+
+describe("createMatcher access", () => {
+  const tsData = {
+    classes: [
+      cls("User", tsFile("user.ts"), [
+        "subscribe",
+        method("fetch", { access: "private" }),
+        method("updateCache", { access: "protected" }),
+      ]),
+    ],
+    functions: [],
+  };
+  const pythonData = {
+    classes: [
+      cls("User", pythonFile("user.py"), [
+        "subscribe",
+        "fetch",
+        "_update_cache",
+        "__init__",
+      ]),
+    ],
+    functions: [],
+  };
+
+  // [TS name, Python name] of each pair of User's methods
+  const getPairs = (access) =>
+    createMatcher(tsData, pythonData, NO_ALIASES, access)
+      .getMethodPairs("User")
+      .map(({ ts, python }) => [ts?.name, python?.name]);
+
+  it("leaves out less visible methods before pairing", () => {
+    // The private TS fetch is dropped, so Python's looks unported
+    assert.deepEqual(getPairs("public"), [
+      ["subscribe", "subscribe"],
+      [undefined, "fetch"],
+    ]);
+  });
+
+  it("pairs methods once the filter includes both sides", () => {
+    assert.deepEqual(getPairs("protected"), [
+      ["subscribe", "subscribe"],
+      ["updateCache", "_update_cache"],
+      [undefined, "fetch"],
+    ]);
+    assert.deepEqual(getPairs("private"), [
+      ["subscribe", "subscribe"],
+      ["fetch", "fetch"],
+      ["updateCache", "_update_cache"],
+      [undefined, "__init__"],
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { alignLines, getLineIdentifiers } from "../src/lib/alignment.ts";
+
+// Rows as [tsIndex, pythonIndex], with null for a gap
+const pairs = (rows) =>
+  rows.map(({ ts, python }) => [ts ?? null, python ?? null]);
+
+describe("getLineIdentifiers", () => {
+  it("normalizes identifiers across case styles", () => {
+    assert.deepEqual(
+      getLineIdentifiers("const user = this.getUserAccount(marketIndex);"),
+      new Set(["user", "getuseraccount", "marketindex"])
+    );
+    assert.deepEqual(
+      getLineIdentifiers("user = self.get_user_account(market_index)"),
+      new Set(["user", "getuseraccount", "marketindex"])
+    );
+  });
+
+  it("leaves out keywords and punctuation-only lines", () => {
+    assert.equal(getLineIdentifiers("  } else {").size, 0);
+    assert.equal(getLineIdentifiers("return None").size, 0);
+  });
+});
+
+describe("alignLines", () => {
+  it("pairs up lines doing the same thing in order", () => {
+    const rows = alignLines(
+      [
+        "async fetchAccounts(): Promise<void> {",
+        "  const user = await this.getUserAccount(marketIndex);",
+        "  this.cache.set(user.authority, user);",
+        "}",
+      ],
+      [
+        "async def fetch_accounts(self):",
+        "    user = await self.get_user_account(market_index)",
+        "    self.cache[user.authority] = user",
+      ]
+    );
+    assert.deepEqual(pairs(rows), [
+      [0, 0],
+      [1, 1],
+      [2, 2],
+      [3, null],
+    ]);
+    assert.equal(rows[1].similarity, 1);
+    assert.equal(rows[3].similarity, 0);
+  });
+
+  it("leaves gaps for lines only one side has", () => {
+    const rows = alignLines(
+      ["const slot = getSlot();", "logSlot(slot);", "return fetchUser(slot);"],
+      ["slot = get_slot()", "return fetch_user(slot)"]
+    );
+    assert.deepEqual(pairs(rows), [
+      [0, 0],
+      [1, null],
+      [2, 1],
+    ]);
+  });
+
+  it("puts rewritten stretches side by side", () => {
+    const rows = alignLines(
+      [
+        "const slot = getSlot();",
+        "validateOrder(order);",
+        "emitEvent(order);",
+        "submit(slot);",
+      ],
+      ["slot = get_slot()", "check_market(order_params)", "submit(slot)"]
+    );
+    assert.deepEqual(pairs(rows), [
+      [0, 0],
+      [1, 1],
+      [2, null],
+      [3, 2],
+    ]);
+    assert.equal(rows[1].similarity, 0);
+  });
+
+  it("doesn't pair lines below the similarity threshold", () => {
+    const rows = alignLines(
+      ["placeOrder(market, price, size, reduceOnly, postOnly);"],
+      ["place_order(market_index)"]
+    );
+    assert.deepEqual(pairs(rows), [[0, 0]]);
+    assert.equal(rows[0].similarity, 0);
+  });
+
+  it("handles an empty side", () => {
+    assert.deepEqual(pairs(alignLines(["a();", "b();"], [])), [
+      [0, null],
+      [1, null],
+    ]);
+    assert.deepEqual(alignLines([], []), []);
+  });
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { describe, it } from "node:test";
+import { buildPortingBacklog } from "../src/lib/changelog.ts";
+import { cls, method, parameters, pythonFile, tsFile } from "./helpers.mjs";
+
+const readJson = (path) =>
+  JSON.parse(fs.readFileSync(new URL(path, import.meta.url), "utf-8"));
+
+const snapshot = (date, tsClasses, pythonClasses = []) => ({
+  date,
+  tsData: { classes: tsClasses, functions: [] },
+  pythonData: { classes: pythonClasses, functions: [] },
+});
+
+const isSubscribed = [
+  method("isSubscribed", { kind: "get", returns: "boolean" }),
+  method("isSubscribed", {
+    kind: "set",
+    parameters: parameters(["val", "boolean"]),
+  }),
+];
+
+// [change, Class.method, ported] for each entry
+const summarize = (entries) =>
+  entries.map(({ change, className, methodName, ported }) => [
+    change,
+    [className, methodName].filter(Boolean).join("."),
+    ported,
+  ]);
+
+describe("buildPortingBacklog", () => {
+  it("is empty between two copies of the checked-in dumps", () => {
+    const data = {
+      tsData: readJson("../src/data/typescript_sdk.json"),
+      pythonData: readJson("../src/data/python_sdk.json"),
+    };
+    assert.deepEqual(
+      buildPortingBacklog(
+        { date: "2024-01-01", ...data },
+        { date: "current", ...data }
+      ),
+      []
+    );
+  });
+
+  it("doesn't compare a getter with a setter of the same name", () => {
+    const from = snapshot("2024-01-01", [
+      cls("User", tsFile("user.ts"), isSubscribed),
+    ]);
+    const to = snapshot("current", [
+      cls("User", tsFile("user.ts"), [...isSubscribed].reverse()),
+    ]);
+    assert.deepEqual(buildPortingBacklog(from, to), []);
+  });
+
+  it("lists new, changed and removed classes and methods", () => {
+    const from = snapshot("2024-01-01", [
+      cls("DriftClient", tsFile("driftClient.ts"), [
+        method("getUser", { returns: "User" }),
+        "unsubscribe",
+      ]),
+      cls("BulkAccountLoader", tsFile("bulkAccountLoader.ts"), ["load"]),
+    ]);
+    const to = snapshot(
+      "current",
+      [
+        cls("DriftClient", tsFile("driftClient.ts"), [
+          method("getUser", {
+            parameters: parameters(["subAccountId", "number"]),
+            returns: "User",
+          }),
+          "placeOrder",
+          method("reset", { access: "private" }),
+        ]),
+        cls("Slot", tsFile("slot.ts"), ["get"]),
+      ],
+      [
+        cls("DriftClient", pythonFile("drift_client.py"), [
+          "get_user",
+          "place_order",
+        ]),
+      ]
+    );
+    const backlog = buildPortingBacklog(from, to);
+    assert.deepEqual(summarize(backlog), [
+      ["changed-signature", "DriftClient.getUser", true],
+      ["new-method", "DriftClient.placeOrder", true],
+      ["removed-method", "DriftClient.unsubscribe", false],
+      ["new-class", "Slot", false],
+      ["new-method", "Slot.get", false],
+      ["removed-class", "BulkAccountLoader", false],
+    ]);
+    assert.equal(backlog[0].before, "() => User");
+    assert.equal(backlog[0].after, "(subAccountId: number) => User");
+  });
+
+  it("tells duplicate class names apart by file", () => {
+    const from = snapshot("2024-01-01", [
+      cls("Config", tsFile("config.ts"), ["load"]),
+      cls("Config", tsFile("dlob/config.ts"), ["load"]),
+    ]);
+    const to = snapshot("current", [
+      cls("Config", tsFile("config.ts"), ["load"]),
+      cls("Config", tsFile("dlob/config.ts"), ["load", "save"]),
+    ]);
+    assert.deepEqual(summarize(buildPortingBacklog(from, to)), [
+      ["new-method", "Config.save", false],
+    ]);
+  });
+});
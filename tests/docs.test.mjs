@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildDocReport,
+  getDocState,
+  toPythonDocstring,
+} from "../src/lib/docs.ts";
+import { createMatcher } from "../src/lib/matching.ts";
+import { cls, method, NO_ALIASES, pythonFile, tsFile } from "./helpers.mjs";
+
+const documented = (name) => method(name, { docstring: `Does ${name}` });
+const undocumented = (name) => method(name, { docstring: "" });
+
+describe("getDocState", () => {
+  it("tells missing, empty and placeholder docstrings apart", () => {
+    assert.equal(getDocState({}), "unknown");
+    assert.equal(getDocState({ docstring: " \n" }), "undocumented");
+    assert.equal(
+      getDocState({
+        docstring: "Missing associated documentation comment in .proto file.",
+      }),
+      "undocumented"
+    );
+    assert.equal(getDocState({ docstring: "Fetches" }), "documented");
+  });
+});
+
+describe("toPythonDocstring", () => {
+  it("turns @param tags into snake_cased Args", () => {
+    assert.equal(
+      toPythonDocstring(
+        [
+          "Places an order.",
+          "@param {OptionalOrderParams} orderParams - The order to place",
+          "@param {number} [subAccountId=0] - Which sub account",
+          "@param txParams",
+        ].join("\n")
+      ),
+      [
+        "Places an order.",
+        "",
+        "Args:",
+        "    order_params: The order to place",
+        "    sub_account_id: Which sub account",
+        "    tx_params:",
+      ].join("\n")
+    );
+  });
+
+  it("turns @returns and @return into Returns", () => {
+    assert.equal(
+      toPythonDocstring("@returns {Promise<string>} The signature"),
+      "Returns:\n    The signature"
+    );
+    assert.equal(
+      toPythonDocstring("@return the user"),
+      "Returns:\n    the user"
+    );
+  });
+
+  it("indents lines continuing a tag under it", () => {
+    assert.equal(
+      toPythonDocstring(
+        [
+          "Settles PnL.",
+          "",
+          "Only for perp markets.",
+          "@param marketIndex - The market to settle,",
+          "  which must be a perp market",
+          "",
+          "@returns The transaction signature,",
+          "once confirmed",
+        ].join("\n")
+      ),
+      [
+        "Settles PnL.",
+        "",
+        "Only for perp markets.",
+        "",
+        "Args:",
+        "    market_index: The market to settle,",
+        "        which must be a perp market",
+        "",
+        "Returns:",
+        "    The transaction signature,",
+        "        once confirmed",
+      ].join("\n")
+    );
+  });
+
+  it("keeps other tags in the description", () => {
+    assert.equal(
+      toPythonDocstring("Old.\n@deprecated use getUser\n@param id"),
+      "Old.\n@deprecated use getUser\n\nArgs:\n    id:"
+    );
+  });
+});
+
+describe("buildDocReport", () => {
+  const matcher = createMatcher(
+    {
+      classes: [
+        cls("DriftClient", tsFile("driftClient.ts"), [
+          documented("getUser"),
+          documented("placeOrder"),
+          undocumented("subscribe"),
+          documented("tsOnly"),
+        ]),
+        cls("OrderSubscriber", tsFile("orderSubscriber/OrderSubscriber.ts"), [
+          documented("subscribe"),
+        ]),
+        cls(
+          "PollingDriftClientAccountSubscriber",
+          tsFile("accounts/pollingDriftClientAccountSubscriber.ts"),
+          [undocumented("fetch")]
+        ),
+      ],
+      functions: [],
+    },
+    {
+      classes: [
+        cls("DriftClient", pythonFile("drift_client.py"), [
+          documented("get_user"),
+          undocumented("place_order"),
+          documented("subscribe"),
+        ]),
+        cls(
+          "OrderSubscriber",
+          pythonFile("order_subscription/order_subscriber.py"),
+          [undocumented("subscribe")]
+        ),
+        cls(
+          "PollingDriftClientAccountSubscriber",
+          pythonFile("accounts/polling.py"),
+          [undocumented("fetch")]
+        ),
+      ],
+      functions: [],
+    },
+    NO_ALIASES
+  );
+  const report = buildDocReport(matcher);
+
+  it("reports each matched method's docs", () => {
+    const driftClient = report.classes.find(({ key }) => key === "DriftClient");
+    assert.deepEqual(
+      driftClient.methods.map(({ ts, tsState, pythonState, suggestion }) => [
+        ts.name,
+        tsState,
+        pythonState,
+        suggestion,
+      ]),
+      [
+        ["getUser", "documented", "documented", undefined],
+        ["placeOrder", "documented", "undocumented", "Does placeOrder"],
+        ["subscribe", "undocumented", "documented", undefined],
+      ]
+    );
+    assert.deepEqual(driftClient.coverage, { total: 3, ts: 2, python: 2 });
+    assert.equal(report.hasTsDocs, true);
+  });
+
+  it("rolls coverage up through each directory to the root", () => {
+    // Filed under the TS side's directory, mapped to driftpy's layout
+    assert.deepEqual(report.directories, [
+      { path: "", coverage: { total: 5, ts: 3, python: 2 } },
+      { path: "accounts", coverage: { total: 1, ts: 0, python: 0 } },
+      { path: "accounts/polling", coverage: { total: 1, ts: 0, python: 0 } },
+      { path: "order_subscriber", coverage: { total: 1, ts: 1, python: 0 } },
+    ]);
+  });
+
+  it("knows when the TS dump has no JSDoc", () => {
+    const bare = createMatcher(
+      { classes: [cls("User", tsFile("user.ts"), ["fetch"])], functions: [] },
+      {
+        classes: [cls("User", pythonFile("user.py"), [documented("fetch")])],
+        functions: [],
+      },
+      NO_ALIASES
+    );
+    const { classes, hasTsDocs } = buildDocReport(bare);
+    assert.equal(hasTsDocs, false);
+    assert.equal(classes[0].methods[0].tsState, "unknown");
+  });
+});
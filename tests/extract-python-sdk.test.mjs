@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { describe, it } from "node:test";
+import { extractPythonSdk } from "../scripts/extract-python-sdk.mjs";
+
+const readJson = (path) =>
+  JSON.parse(fs.readFileSync(new URL(path, import.meta.url), "utf-8"));
+
+// tests/fixtures/driftpy is a small package laid out like a driftpy
+// checkout. If the extractor's output changes on purpose, regenerate the
+// expected dump with
+//   npm run extract:python -- tests/fixtures/driftpy tests/fixtures/python_sdk.json
+// `meta` changes on every run, so it's checked separately
+const { meta, ...extracted } = extractPythonSdk(
+  new URL("./fixtures/driftpy", import.meta.url).pathname
+);
+const { meta: _, ...expected } = readJson("./fixtures/python_sdk.json");
+const checkedIn = readJson("../src/data/python_sdk.json");
+
+const findClass = (name) => extracted.classes.find((cls) => cls.name === name);
+const findMethod = (className, name) =>
+  findClass(className).methods.find((method) => method.name === name);
+
+describe("extractPythonSdk", () => {
+  it("matches the expected dump for the fixture package", () => {
+    assert.deepEqual(extracted, expected);
+  });
+
+  it("records where and how the dump was generated", () => {
+    assert.equal(meta.repo, "drift-labs/driftpy");
+    // The fixture's commit is this repository's, when run from a checkout
+    // The fixtures sit inside this repository, not at the root of their own
+    assert.equal(meta.commit, null);
+    assert.ok(!Number.isNaN(Date.parse(meta.generatedAt)));
+    assert.equal(meta.tool, "extract-python-sdk");
+    assert.match(meta.toolVersion, /^python 3\./);
+  });
+
+  it("emits the same keys as the checked-in python_sdk.json", () => {
+    const keysOf = (item) => Object.keys(item);
+    const [sampleClass] = checkedIn.classes;
+    const [sampleFunction] = checkedIn.functions;
+    const sampleMethod = checkedIn.classes.find((cls) => cls.methods.length)
+      .methods[0];
+
+    extracted.classes.forEach((cls) => {
+      assert.deepEqual(keysOf(cls), keysOf(sampleClass), cls.name);
+      cls.methods.forEach((method) =>
+        assert.deepEqual(keysOf(method), keysOf(sampleMethod), method.name)
+      );
+    });
+    extracted.functions.forEach((fn) =>
+      assert.deepEqual(keysOf(fn), keysOf(sampleFunction), fn.name)
+    );
+  });
+
+  it("prefixes files with the package name", () => {
+    assert.deepEqual(
+      Array.from(
+        new Set(
+          [...extracted.classes, ...extracted.functions].map(
+            (item) => item.file
+          )
+        )
+      ).sort(),
+      ["driftpy/math/spot_position.py", "driftpy/user.py"]
+    );
+  });
+
+  it("skips private classes and functions and special methods", () => {
+    assert.equal(findClass("_Internal"), undefined);
+    assert.equal(findMethod("DriftUser", "__init__"), undefined);
+    assert.deepEqual(
+      extracted.functions.map((fn) => fn.name),
+      ["get_token_amount", "fetch_spot_positions"]
+    );
+  });
+
+  it("derives kind and flags from decorators", () => {
+    const kinds = Object.fromEntries(
+      findClass("DriftUser").methods.map((method) => [
+        method.name,
+        [method.kind, method.isStatic, method.isClassMethod],
+      ])
+    );
+    assert.deepEqual(kinds, {
+      subscribe: ["method", false, false],
+      get_user_account_and_slot: ["method", false, false],
+      user_public_key: ["property", false, false],
+      default: ["staticmethod", true, false],
+      from_config: ["classmethod", false, true],
+      get_liq_price: ["method", false, false],
+      _refresh: ["method", false, false],
+      __reset: ["method", false, false],
+    });
+    assert.deepEqual(findMethod("DriftUser", "get_liq_price").decorators, [
+      "deprecated",
+    ]);
+  });
+
+  it("records access by the underscore convention", () => {
+    assert.equal(findMethod("DriftUser", "subscribe").access, "public");
+    assert.equal(findMethod("DriftUser", "_refresh").access, "protected");
+    assert.equal(findMethod("DriftUser", "__reset").access, "private");
+  });
+
+  it("keeps self/cls and keyword-only parameters but not *args/**kwargs", () => {
+    assert.deepEqual(findMethod("DriftUser", "from_config").parameters, [
+      { name: "cls", type: "Any" },
+      { name: "config", type: "dict[str, int]" },
+      { name: "strict", type: "bool" },
+    ]);
+    assert.deepEqual(
+      findMethod("DriftUser", "get_liq_price").parameters.map((p) => p.name),
+      ["self", "market_index"]
+    );
+  });
+
+  it("records untyped and forward-referenced annotations", () => {
+    assert.equal(findMethod("DriftUser", "user_public_key").returns, "Any");
+    assert.equal(findMethod("DriftUser", "default").returns, "DriftUser");
+    assert.equal(
+      findMethod("DriftUser", "get_liq_price").returns,
+      "int | None"
+    );
+  });
+
+  it("marks ABC subclasses abstract and joins base classes", () => {
+    assert.equal(findClass("UserAccountSubscriber").abstract, true);
+    assert.equal(findClass("DriftUser").abstract, false);
+    assert.equal(
+      findClass("DriftUser").extends,
+      "UserAccountSubscriber, Generic[T]"
+    );
+  });
+
+  it("includes decorators in line ranges and cleans docstrings", () => {
+    const subscribe = findMethod("UserAccountSubscriber", "subscribe");
+    assert.deepEqual([subscribe.startLine, subscribe.endLine], [12, 14]);
+    assert.equal(
+      findMethod("DriftUser", "from_config").docstring,
+      "Builds a user from a config dict.\n\nExtra keys are ignored."
+    );
+  });
+});
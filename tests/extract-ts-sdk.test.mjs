@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { describe, it } from "node:test";
+import { extractTsSdk } from "../scripts/extract-ts-sdk.mjs";
+import { parseSDKData } from "../src/lib/schema.ts";
+
+const readJson = (path) =>
+  JSON.parse(fs.readFileSync(new URL(path, import.meta.url), "utf-8"));
+
+// tests/fixtures/protocol-v2 is a small SDK laid out like a protocol-v2
+// checkout, with its own tsconfig so the repo's doesn't apply. If the
+// extractor's output changes on purpose, regenerate the expected dump with
+//   npm run extract:ts -- tests/fixtures/protocol-v2 tests/fixtures/typescript_sdk.json
+// and drop its `meta`, which changes on every run
+const { meta, ...extracted } = extractTsSdk(
+  new URL("./fixtures/protocol-v2", import.meta.url).pathname
+);
+const expected = readJson("./fixtures/typescript_sdk.json");
+const checkedIn = readJson("../src/data/typescript_sdk.json");
+
+const findClass = (name) => extracted.classes.find((cls) => cls.name === name);
+const findMethods = (className, name) =>
+  findClass(className).methods.filter((method) => method.name === name);
+const findMethod = (className, name) => findMethods(className, name)[0];
+
+describe("extractTsSdk", () => {
+  it("matches the expected dump for the fixture SDK", () => {
+    assert.deepEqual(extracted, expected);
+  });
+
+  it("records where and how the dump was generated", () => {
+    assert.equal(meta.repo, "drift-labs/protocol-v2");
+    // The fixtures sit inside this repository, not at the root of their own
+    assert.equal(meta.commit, null);
+    assert.ok(!Number.isNaN(Date.parse(meta.generatedAt)));
+    assert.equal(meta.tool, "extract-ts-sdk");
+    assert.match(meta.toolVersion, /^typescript \d/);
+  });
+
+  it("produces a dump the site can load", () => {
+    assert.doesNotThrow(() =>
+      parseSDKData({ meta, ...extracted }, "typescript_sdk.json")
+    );
+  });
+
+  it("emits every key the checked-in typescript_sdk.json has", () => {
+    // The checked-in dump predates JSDoc capture, so `docstring` is extra;
+    // `extends` and `implements` are only there for classes that have them
+    const assertHasKeys = (item, sample, label) =>
+      Object.keys(sample).forEach((key) =>
+        assert.ok(
+          key in item || key === "implements" || key === "extends",
+          `${label}.${key}`
+        )
+      );
+    const sampleMethod = checkedIn.classes.find((cls) => cls.methods.length)
+      .methods[0];
+    extracted.classes.forEach((cls) => {
+      assertHasKeys(cls, checkedIn.classes[0], cls.name);
+      cls.methods.forEach((method) =>
+        assertHasKeys(method, sampleMethod, `${cls.name}.${method.name}`)
+      );
+    });
+    extracted.functions.forEach((fn) =>
+      assertHasKeys(fn, checkedIn.functions[0], fn.name)
+    );
+  });
+
+  it("prefixes files with the SDK's path in protocol-v2", () => {
+    assert.deepEqual(
+      Array.from(new Set(extracted.classes.map((cls) => cls.file))),
+      ["protocol-v2/sdk/src/accounts/types.ts", "protocol-v2/sdk/src/user.ts"]
+    );
+  });
+
+  it("records heritage clauses without type arguments", () => {
+    assert.equal(findClass("PollingSubscriber").extends, "BaseSubscriber");
+    assert.deepEqual(findClass("User").implements, ["AccountSubscriber"]);
+    assert.equal(findClass("BaseSubscriber").abstract, true);
+  });
+
+  it("keeps a getter and a setter of the same name", () => {
+    assert.deepEqual(
+      findMethods("User", "isSubscribed").map((method) => [
+        method.kind,
+        method.returns,
+      ]),
+      [
+        ["get", "boolean"],
+        ["set", undefined],
+      ]
+    );
+  });
+
+  it("records an overloaded method once, by its implementation", () => {
+    const overloads = findMethods("User", "getTokenAmount");
+    assert.equal(overloads.length, 1);
+    assert.deepEqual(
+      overloads[0].parameters.map((parameter) => parameter.name),
+      ["marketIndex", "precise"]
+    );
+    assert.equal(overloads[0].returns, "number | bigint");
+  });
+
+  it("keeps abstract methods but not bodiless function declarations", () => {
+    assert.equal(findMethod("BaseSubscriber", "fetch").returns, "Promise<T>");
+    assert.deepEqual(
+      extracted.functions.map((fn) => [fn.name, fn.isExported]),
+      [
+        ["sum", true],
+        ["formatAmount", false],
+      ]
+    );
+  });
+
+  it("records modifiers, access and inferred types", () => {
+    const subscribe = findMethod("User", "subscribe");
+    assert.equal(subscribe.isAsync, true);
+    assert.deepEqual(subscribe.parameters, [
+      { name: "interval", type: "number" },
+    ]);
+    assert.equal(findMethod("User", "fromConfig").isStatic, true);
+    assert.equal(findMethod("User", "refresh").access, "protected");
+    assert.equal(findMethod("User", "reset").access, "private");
+    assert.equal(findMethod("User", "#clear").access, "private");
+    assert.equal(
+      findMethod("User", "fetchAccounts").returns,
+      "Promise<string[]>"
+    );
+    assert.equal(findMethod("User", "constructor").returns, undefined);
+  });
+
+  it("captures JSDoc without comment markers, tags included", () => {
+    assert.equal(
+      findMethod("User", "subscribe").docstring,
+      "Starts polling the account.\n@param interval - milliseconds between polls\n@returns whether polling started"
+    );
+    assert.equal(
+      findClass("User").docstring,
+      'A user account and its orders.\n\n@example new User("authority")'
+    );
+    assert.equal(findMethod("User", "refresh").docstring, "");
+  });
+});
@@ -0,0 +1,16 @@
+from driftpy.user import DriftUser
+
+
+def get_token_amount(
+    balance: int, spot_market: "SpotMarketAccount", balance_type
+) -> int:
+    """Converts a scaled balance into a token amount."""
+    return balance
+
+
+async def fetch_spot_positions(user: DriftUser) -> list[int]:
+    return []
+
+
+def _cast(value):
+    return value
@@ -0,0 +1,60 @@
+from abc import ABC, abstractmethod
+from typing import Generic, Optional, TypeVar
+
+from typing_extensions import deprecated
+
+T = TypeVar("T")
+
+
+class UserAccountSubscriber(ABC):
+    """Keeps a user account up to date."""
+
+    @abstractmethod
+    async def subscribe(self) -> bool:
+        pass
+
+    @abstractmethod
+    def get_user_account_and_slot(self) -> Optional[T]:
+        pass
+
+
+class DriftUser(UserAccountSubscriber, Generic[T]):
+    def __init__(self, drift_client, user_public_key: Pubkey, sub_account_id=0):
+        self.drift_client = drift_client
+
+    async def subscribe(self) -> bool:
+        return True
+
+    def get_user_account_and_slot(self) -> Optional[T]:
+        return None
+
+    @property
+    def user_public_key(self):
+        return self._user_public_key
+
+    @staticmethod
+    def default() -> "DriftUser":
+        return DriftUser(None, None)
+
+    @classmethod
+    def from_config(cls, config: dict[str, int], *, strict: bool = False):
+        """Builds a user from a config dict.
+
+        Extra keys are ignored.
+        """
+        return cls(None, None)
+
+    @deprecated("use get_perp_liq_price")
+    def get_liq_price(self, market_index: int, *args, **kwargs) -> int | None:
+        return None
+
+    def _refresh(self):
+        pass
+
+    def __reset(self):
+        pass
+
+
+class _Internal:
+    def run(self):
+        pass
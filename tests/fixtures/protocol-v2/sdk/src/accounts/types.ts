@@ -0,0 +1,33 @@
+export interface AccountSubscriber {
+  subscribe(interval?: number): Promise<boolean>;
+}
+
+/**
+ * Polls accounts in batches.
+ */
+export abstract class BaseSubscriber<T> {
+  abstract fetch(): Promise<T>;
+
+  protected log(message: string): void {
+    console.log(message);
+  }
+}
+
+export class PollingSubscriber extends BaseSubscriber<number[]> {
+  async fetch(): Promise<number[]> {
+    return [];
+  }
+}
+
+/** Sums the amounts. */
+export function sum(amounts: number[]): number {
+  return amounts.reduce((total, amount) => total + amount, 0);
+}
+
+export declare function declared(): void;
+
+function formatAmount(amount: number) {
+  return amount.toFixed(2);
+}
+
+export const formatted = formatAmount(sum([1, 2]));
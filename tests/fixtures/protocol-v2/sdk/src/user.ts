@@ -0,0 +1,64 @@
+import type { AccountSubscriber } from "./accounts/types";
+
+/**
+ * A user account and its orders.
+ *
+ * @example new User("authority")
+ */
+export class User implements AccountSubscriber {
+  private _isSubscribed = false;
+  #cache = new Map<string, number>();
+
+  constructor(public readonly authority: string) {}
+
+  /** Whether the account is being polled. */
+  public get isSubscribed(): boolean {
+    return this._isSubscribed;
+  }
+
+  public set isSubscribed(value: boolean) {
+    this._isSubscribed = value;
+  }
+
+  /**
+   * Starts polling the account.
+   * @param interval - milliseconds between polls
+   * @returns whether polling started
+   */
+  public async subscribe(interval = 1000): Promise<boolean> {
+    this._isSubscribed = interval > 0;
+    return this._isSubscribed;
+  }
+
+  public getTokenAmount(marketIndex: number): number;
+  public getTokenAmount(marketIndex: number, precise: boolean): bigint;
+  public getTokenAmount(marketIndex: number, precise = false): number | bigint {
+    return precise ? BigInt(marketIndex) : marketIndex;
+  }
+
+  public fetchAccounts() {
+    return Promise.resolve([this.authority]);
+  }
+
+  protected refresh(): void {
+    this.#cache.clear();
+  }
+
+  private reset(): void {
+    this.#clear();
+  }
+
+  #clear(): void {
+    this.#cache.clear();
+  }
+
+  static fromConfig({
+    authority,
+    slot,
+  }: {
+    authority: string;
+    slot?: number;
+  }): User {
+    return new User(`${authority}:${slot ?? 0}`);
+  }
+}
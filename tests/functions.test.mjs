@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getFunctionPairStatus, matchFunctions } from "../src/lib/functions.ts";
+import { fn, NO_ALIASES, pythonFile, tsFile } from "./helpers.mjs";
+
+const ts = (name, path, startLine = 1) =>
+  fn(name, tsFile(path), { startLine, endLine: startLine + 9 });
+const python = (name, path, startLine = 1) =>
+  fn(name, pythonFile(path), { startLine, endLine: startLine + 9 });
+
+// [module, [key, ts file, python file] for each pair] for each module
+const summarize = (modules) =>
+  modules.map(({ module, pairs }) => [
+    module,
+    pairs.map(({ key, ts, python }) => [key, ts?.file, python?.file]),
+  ]);
+
+describe("matchFunctions", () => {
+  it("prefers a namesake in the equivalent module", () => {
+    const modules = matchFunctions(
+      { functions: [ts("calculateSize", "math/orders.ts", 12)] },
+      {
+        functions: [
+          python("calculate_size", "utils.py", 40),
+          python("calculate_size", "math/orders.py", 8),
+        ],
+      },
+      NO_ALIASES
+    );
+    assert.deepEqual(summarize(modules), [
+      [
+        "math/orders",
+        [
+          [
+            "math/orders:calculateSize:12",
+            "protocol-v2/sdk/src/math/orders.ts",
+            "driftpy/math/orders.py",
+          ],
+        ],
+      ],
+      ["utils", [["utils:calculate_size:40", undefined, "driftpy/utils.py"]]],
+    ]);
+  });
+
+  it("pairs namesakes across modules when there's no better one", () => {
+    const [module] = matchFunctions(
+      { functions: [ts("getTokenAmount", "math/spotBalance.ts")] },
+      { functions: [python("get_token_amount", "math/spot_market.py")] },
+      NO_ALIASES
+    );
+    assert.equal(module.module, "math/spot_balance");
+    assert.equal(module.pairs[0].python.name, "get_token_amount");
+  });
+
+  it("pairs aliased names first", () => {
+    const [module] = matchFunctions(
+      {
+        functions: [ts("getSignedTokenAmount", "math/spotBalance.ts")],
+      },
+      {
+        functions: [
+          python("get_signed_token_amount_v2", "math/spot_balance.py"),
+        ],
+      },
+      {
+        ...NO_ALIASES,
+        functions: [
+          { ts: "getSignedTokenAmount", python: "get_signed_token_amount_v2" },
+        ],
+      }
+    );
+    assert.equal(getFunctionPairStatus(module.pairs[0]), "both");
+  });
+
+  it("keys pairs by module, name and line, packages by their directory", () => {
+    const modules = matchFunctions(
+      {
+        functions: [
+          ts("sum", "dlob/index.ts", 30),
+          ts("sum", "dlob/index.ts", 5),
+        ],
+      },
+      { functions: [] },
+      NO_ALIASES
+    );
+    assert.deepEqual(
+      modules[0].pairs.map(({ key }) => key),
+      ["dlob:sum:30", "dlob:sum:5"]
+    );
+  });
+
+  it("sorts modules and the pairs within them by name", () => {
+    const modules = matchFunctions(
+      {
+        functions: [
+          ts("zeta", "math/orders.ts"),
+          ts("alpha", "math/orders.ts"),
+          ts("beta", "accounts/utils.ts"),
+        ],
+      },
+      { functions: [python("gamma", "math/orders.py")] },
+      NO_ALIASES
+    );
+    assert.deepEqual(
+      modules.map(({ module, pairs }) => [
+        module,
+        pairs.map((pair) => (pair.ts || pair.python).name),
+      ]),
+      [
+        ["accounts/utils", ["beta"]],
+        ["math/orders", ["alpha", "gamma", "zeta"]],
+      ]
+    );
+  });
+
+  it("treats a dump without functions as empty", () => {
+    assert.deepEqual(matchFunctions({}, {}, NO_ALIASES), []);
+  });
+});
+
+describe("getFunctionPairStatus", () => {
+  it("says which SDKs have the function", () => {
+    const sum = ts("sum", "math/utils.ts");
+    assert.equal(getFunctionPairStatus({ ts: sum, python: sum }), "both");
+    assert.equal(getFunctionPairStatus({ ts: sum }), "ts-only");
+    assert.equal(getFunctionPairStatus({ python: sum }), "python-only");
+  });
+});
@@ -0,0 +1,53 @@
+// Fixture factories for the tests: dump entries with every field the schema
+// requires, defaults overridden through `extra`
+
+export const NO_ALIASES = { classes: [], methods: [], functions: [] };
+
+export const tsFile = (path) => `protocol-v2/sdk/src/${path}`;
+export const pythonFile = (path) => `driftpy/${path}`;
+
+// Parameters from bare names or [name, type] pairs
+export const parameters = (...items) =>
+  items.map((item) =>
+    typeof item === "string"
+      ? { name: item, type: "" }
+      : { name: item[0], type: item[1] }
+  );
+
+export const method = (name, extra = {}) => ({
+  name,
+  kind: "method",
+  isStatic: false,
+  isAsync: false,
+  access: "public",
+  parameters: [],
+  startLine: 1,
+  endLine: 10,
+  ...extra,
+});
+
+// `methods` can mix method entries and bare names
+export const cls = (name, file, methods = [], extra = {}) => ({
+  name,
+  file,
+  abstract: false,
+  methods: methods.map((item) =>
+    typeof item === "string" ? method(item) : item
+  ),
+  startLine: 1,
+  endLine: 100,
+  ...extra,
+});
+
+export const fn = (name, file, extra = {}) => ({
+  name,
+  file,
+  isExported: true,
+  isDefaultExport: false,
+  isAsync: false,
+  parameters: [],
+  returns: "",
+  startLine: 1,
+  endLine: 10,
+  ...extra,
+});
@@ -0,0 +1,211 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildHierarchy,
+  diffImplementors,
+  getInheritanceCoverage,
+} from "../src/lib/hierarchy.ts";
+import { createMatcher } from "../src/lib/matching.ts";
+import { cls, method, NO_ALIASES } from "./helpers.mjs";
+
+// [name, relation, whether it's in the dump, children] for each node
+const shape = (node) => [
+  node.name,
+  node.relation,
+  !!node.cls,
+  node.children.map(shape),
+];
+
+describe("buildHierarchy", () => {
+  it("roots trees at base classes, interfaces and library bases", () => {
+    const tree = buildHierarchy(
+      {
+        classes: [
+          cls("BaseSubscriber", "BaseSubscriber.ts"),
+          cls("PollingSubscriber", "PollingSubscriber.ts", [], {
+            extends: "BaseSubscriber<number>",
+            implements: ["AccountSubscriber"],
+          }),
+          cls("WebSocketSubscriber", "WebSocketSubscriber.ts", [], {
+            extends: "BaseSubscriber",
+          }),
+          cls("User", "User.ts", [], { implements: ["AccountSubscriber"] }),
+          cls("SubscriptionError", "SubscriptionError.ts", [], {
+            extends: "Error",
+          }),
+          cls("DriftClient", "DriftClient.ts"),
+        ],
+      },
+      "ts"
+    );
+    assert.deepEqual(tree.map(shape), [
+      [
+        "AccountSubscriber",
+        undefined,
+        false,
+        [
+          ["PollingSubscriber", "implements", true, []],
+          ["User", "implements", true, []],
+        ],
+      ],
+      [
+        "BaseSubscriber",
+        undefined,
+        true,
+        [
+          ["PollingSubscriber", "extends", true, []],
+          ["WebSocketSubscriber", "extends", true, []],
+        ],
+      ],
+      ["Error", undefined, false, [["SubscriptionError", "extends", true, []]]],
+    ]);
+  });
+
+  it("stops a cycle where it repeats", () => {
+    const tree = buildHierarchy(
+      {
+        classes: [
+          cls("Root", "Root.ts"),
+          cls("A", "A.ts", [], { extends: "Root, B" }),
+          cls("B", "B.ts", [], { extends: "A" }),
+        ],
+      },
+      "python"
+    );
+    assert.deepEqual(tree.map(shape), [
+      [
+        "Root",
+        undefined,
+        true,
+        [["A", "extends", true, [["B", "extends", true, []]]]],
+      ],
+    ]);
+  });
+
+  it("leaves out classes in a cycle with no root", () => {
+    assert.deepEqual(
+      buildHierarchy(
+        {
+          classes: [
+            cls("A", "A.ts", [], { extends: "B" }),
+            cls("B", "B.ts", [], { extends: "A" }),
+          ],
+        },
+        "ts"
+      ),
+      []
+    );
+  });
+});
+
+describe("diffImplementors", () => {
+  const tsData = {
+    classes: [
+      cls("PollingAccountSubscriber", "PollingAccountSubscriber.ts", [], {
+        implements: ["AccountSubscriber"],
+      }),
+      cls("WebSocketAccountSubscriber", "WebSocketAccountSubscriber.ts", [], {
+        implements: ["AccountSubscriber"],
+      }),
+      cls("UserMap", "UserMap.ts"),
+      cls("SubscriptionError", "SubscriptionError.ts", [], {
+        extends: "Error",
+      }),
+    ],
+  };
+  const pythonData = {
+    classes: [
+      cls("AccountSubscriber", "AccountSubscriber.ts", [], { extends: "ABC" }),
+      cls("PollingAccountSubscriber", "PollingAccountSubscriber.ts", [], {
+        extends: "AccountSubscriber",
+      }),
+      cls("CachedAccountSubscriber", "CachedAccountSubscriber.ts", [], {
+        extends: "AccountSubscriber",
+      }),
+      cls("UserMapInterface", "UserMapInterface.ts", [], { extends: "ABC" }),
+      cls("UserMap", "UserMap.ts", [], { extends: "UserMapInterface" }),
+      cls("OrderType", "OrderType.ts", [], { extends: "Enum" }),
+    ],
+  };
+  const diffs = diffImplementors(
+    createMatcher(tsData, pythonData, NO_ALIASES),
+    tsData,
+    pythonData
+  );
+
+  it("compares implementors of a TS interface and its Python namesake", () => {
+    assert.deepEqual(diffs[0], {
+      name: "AccountSubscriber",
+      otherName: "AccountSubscriber",
+      ts: ["PollingAccountSubscriber", "WebSocketAccountSubscriber"],
+      python: ["CachedAccountSubscriber", "PollingAccountSubscriber"],
+      tsOnly: ["WebSocketAccountSubscriber"],
+      pythonOnly: ["CachedAccountSubscriber"],
+    });
+  });
+
+  it("lists Python bases with no TS equivalent on their own", () => {
+    assert.deepEqual(diffs[1], {
+      name: "UserMapInterface",
+      otherName: undefined,
+      ts: [],
+      python: ["UserMap"],
+      tsOnly: [],
+      pythonOnly: ["UserMap"],
+    });
+  });
+
+  it("skips library bases", () => {
+    assert.deepEqual(
+      diffs.map(({ name }) => name),
+      ["AccountSubscriber", "UserMapInterface"]
+    );
+  });
+});
+
+describe("getInheritanceCoverage", () => {
+  it("splits ported TS methods into direct and inherited", () => {
+    const matcher = createMatcher(
+      {
+        classes: [
+          cls("BaseSubscriber", "BaseSubscriber.ts", [method("load")]),
+          cls(
+            "User",
+            "User.ts",
+            [
+              method("subscribe"),
+              method("fetch"),
+              method("getUser"),
+              method("reset", { access: "private" }),
+            ],
+            { extends: "BaseSubscriber" }
+          ),
+        ],
+      },
+      {
+        classes: [
+          cls("Subscriber", "Subscriber.ts", [method("fetch")]),
+          cls("User", "User.ts", [method("subscribe"), method("load")], {
+            extends: "Subscriber",
+          }),
+        ],
+      },
+      NO_ALIASES
+    );
+    // `load` is the TS base's and `reset` is private, so neither counts
+    assert.deepEqual(getInheritanceCoverage(matcher, "User"), {
+      total: 3,
+      direct: 1,
+      inherited: 1,
+    });
+  });
+
+  it("is empty for a class the matcher doesn't know", () => {
+    const matcher = createMatcher({ classes: [] }, { classes: [] }, NO_ALIASES);
+    assert.deepEqual(getInheritanceCoverage(matcher, "User"), {
+      total: 0,
+      direct: 0,
+      inherited: 0,
+    });
+  });
+});
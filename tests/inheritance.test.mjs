@@ -0,0 +1,213 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createInheritanceResolver,
+  getBaseTypes,
+  indexClasses,
+} from "../src/lib/inheritance.ts";
+import { createMatcher } from "../src/lib/matching.ts";
+import { cls, NO_ALIASES } from "./helpers.mjs";
+
+// [method name, owner name] for each inherited method
+const inheritedNames = (resolution) =>
+  resolution.inherited.map(({ method, owner }) => [method.name, owner.name]);
+
+describe("getBaseTypes", () => {
+  it("reads TS base classes and interfaces without type arguments", () => {
+    assert.deepEqual(
+      getBaseTypes(
+        cls("PollingSubscriber", "PollingSubscriber.ts", [], {
+          extends: "BaseSubscriber<Map<string, number>>",
+          implements: ["AccountSubscriber<UserAccount>", "Disposable"],
+        }),
+        "ts"
+      ),
+      [
+        { name: "BaseSubscriber", relation: "extends" },
+        { name: "AccountSubscriber", relation: "implements" },
+        { name: "Disposable", relation: "implements" },
+      ]
+    );
+    assert.deepEqual(getBaseTypes(cls("User", "User.ts", []), "ts"), []);
+  });
+
+  it("splits Python base lists outside brackets and drops marker bases", () => {
+    assert.deepEqual(
+      getBaseTypes(
+        cls("UserMap", "UserMap.ts", [], {
+          extends: "ABC, Generic[T], UserMapInterface[Dict[str, int]], object",
+        }),
+        "python"
+      ),
+      [{ name: "UserMapInterface", relation: "extends" }]
+    );
+    assert.deepEqual(
+      getBaseTypes(cls("User", "User.ts", [], { extends: null }), "python"),
+      []
+    );
+  });
+});
+
+describe("indexClasses", () => {
+  it("keeps the first class of a duplicated name", () => {
+    const first = cls("Config", "Config.ts", ["a"]);
+    const classes = indexClasses({
+      classes: [
+        first,
+        cls("Config", "Config.ts", ["b"]),
+        cls("User", "User.ts", []),
+      ],
+    });
+    assert.equal(classes.get("Config"), first);
+    assert.deepEqual(Array.from(classes.keys()), ["Config", "User"]);
+  });
+});
+
+describe("createInheritanceResolver", () => {
+  it("collects methods up the chain, nearer definitions hiding farther ones", () => {
+    const data = {
+      classes: [
+        cls("Root", "Root.ts", ["constructor", "fetch", "close"]),
+        cls("Base", "Base.ts", ["fetch", "subscribe"], { extends: "Root" }),
+        cls("User", "User.ts", ["getUser", "close"], { extends: "Base" }),
+      ],
+    };
+    const resolution = createInheritanceResolver(data, "ts")(data.classes[2]);
+    assert.deepEqual(inheritedNames(resolution), [
+      ["fetch", "Base"],
+      ["subscribe", "Base"],
+    ]);
+    assert.deepEqual(resolution.unresolvedBases, []);
+    assert.equal(resolution.cycle, undefined);
+  });
+
+  it("walks Python bases depth first, left to right", () => {
+    const data = {
+      classes: [
+        cls("Root", "Root.ts", ["load"]),
+        cls("Left", "Left.ts", [], { extends: "Root" }),
+        cls("Right", "Right.ts", ["load", "save"]),
+        cls("UserMap", "UserMap.ts", [], { extends: "Left, Right" }),
+      ],
+    };
+    assert.deepEqual(
+      inheritedNames(
+        createInheritanceResolver(data, "python")(data.classes[3])
+      ),
+      [
+        ["load", "Root"],
+        ["save", "Right"],
+      ]
+    );
+  });
+
+  it("ignores TS interfaces", () => {
+    const data = {
+      classes: [
+        cls("Subscriber", "Subscriber.ts", ["subscribe"]),
+        cls("User", "User.ts", [], { implements: ["Subscriber"] }),
+      ],
+    };
+    assert.deepEqual(
+      createInheritanceResolver(data, "ts")(data.classes[1]).inherited,
+      []
+    );
+  });
+
+  it("lists bases missing from the dump as unresolved", () => {
+    const data = {
+      classes: [
+        cls("Base", "Base.ts", ["fetch"], { extends: "EventEmitter" }),
+        cls("SubscriptionError", "SubscriptionError.ts", [], {
+          extends: "Error",
+        }),
+        cls("User", "User.ts", [], { extends: "Base" }),
+      ],
+    };
+    const resolve = createInheritanceResolver(data, "ts");
+    assert.deepEqual(resolve(data.classes[1]).unresolvedBases, ["Error"]);
+    const resolution = resolve(data.classes[2]);
+    assert.deepEqual(resolution.unresolvedBases, ["EventEmitter"]);
+    assert.deepEqual(inheritedNames(resolution), [["fetch", "Base"]]);
+  });
+
+  it("reports a cycle and stops where the chain repeats", () => {
+    const data = {
+      classes: [
+        cls("A", "A.ts", ["a"], { extends: "C" }),
+        cls("B", "B.ts", ["b"], { extends: "A" }),
+        cls("C", "C.ts", ["c"], { extends: "B" }),
+      ],
+    };
+    const resolution = createInheritanceResolver(data, "ts")(data.classes[0]);
+    assert.deepEqual(resolution.cycle, ["A", "C", "B", "A"]);
+    assert.deepEqual(inheritedNames(resolution), [
+      ["c", "C"],
+      ["b", "B"],
+    ]);
+
+    const selfData = {
+      classes: [cls("Loop", "Loop.ts", ["x"], { extends: "Loop" })],
+    };
+    const self = createInheritanceResolver(selfData, "ts")(selfData.classes[0]);
+    assert.deepEqual(self.cycle, ["Loop", "Loop"]);
+    assert.deepEqual(self.inherited, []);
+  });
+
+  it("resolves each class once", () => {
+    const data = {
+      classes: [cls("User", "User.ts", [], { extends: "Error" })],
+    };
+    const resolve = createInheritanceResolver(data, "ts");
+    assert.equal(resolve(data.classes[0]), resolve(data.classes[0]));
+  });
+});
+
+describe("inherited method pairs", () => {
+  const matcher = createMatcher(
+    {
+      classes: [
+        cls("BaseSubscriber", "BaseSubscriber.ts", ["fetch"]),
+        cls("User", "User.ts", ["subscribe", "getUser"], {
+          extends: "BaseSubscriber",
+        }),
+      ],
+    },
+    {
+      classes: [
+        cls("Subscriber", "Subscriber.ts", ["subscribe"]),
+        cls("User", "User.ts", ["fetch"], { extends: "Subscriber" }),
+      ],
+    },
+    NO_ALIASES
+  );
+  const pairs = matcher.getMethodPairs("User");
+  const findPair = (name) =>
+    pairs.find((pair) => (pair.ts || pair.python).name === name);
+
+  it("fills a missing side from its base class", () => {
+    const subscribe = findPair("subscribe");
+    assert.equal(subscribe.python.name, "subscribe");
+    assert.equal(subscribe.inherited.sdkName, "python");
+    assert.equal(subscribe.inherited.owner.name, "Subscriber");
+
+    const fetch = findPair("fetch");
+    assert.equal(fetch.ts.name, "fetch");
+    assert.equal(fetch.inherited.sdkName, "ts");
+    assert.equal(fetch.inherited.owner.name, "BaseSubscriber");
+
+    assert.equal(findPair("getUser").python, undefined);
+    assert.equal(findPair("getUser").inherited, undefined);
+  });
+
+  it("finds a pair by the side the class defines itself", () => {
+    assert.equal(
+      matcher.findMethodPair("User", "subscribe", "ts"),
+      findPair("subscribe")
+    );
+    assert.equal(
+      matcher.findMethodPair("User", "subscribe", "python"),
+      undefined
+    );
+  });
+});
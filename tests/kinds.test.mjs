@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  areKindsCompatible,
+  findSetter,
+  foldAccessors,
+  getKindLabel,
+  getKindMismatch,
+  getMethodShape,
+  hasAsyncMismatch,
+  isAsyncMethod,
+} from "../src/lib/kinds.ts";
+import { method, parameters } from "./helpers.mjs";
+
+const tsGetter = method("isSubscribed", { kind: "get" });
+const tsSetter = method("isSubscribed", { kind: "set" });
+const pythonProperty = method("is_subscribed", { kind: "property" });
+const pythonSetter = method("is_subscribed", {
+  decorators: ["is_subscribed.setter"],
+});
+
+describe("getMethodShape", () => {
+  it("reads TS and Python kinds alike", () => {
+    assert.equal(getMethodShape(tsGetter), "property");
+    assert.equal(getMethodShape(pythonProperty), "property");
+    assert.equal(getMethodShape(tsSetter), "setter");
+    assert.equal(getMethodShape(pythonSetter), "setter");
+    assert.equal(getMethodShape(method("load", { isStatic: true })), "static");
+    assert.equal(
+      getMethodShape(method("load", { kind: "classmethod" })),
+      "static"
+    );
+    assert.equal(getMethodShape(method("load")), "method");
+  });
+});
+
+describe("foldAccessors and findSetter", () => {
+  it("folds a setter into its getter", () => {
+    const methods = [tsSetter, method("subscribe"), tsGetter];
+    assert.deepEqual(foldAccessors(methods), [method("subscribe"), tsGetter]);
+    assert.equal(findSetter(methods, tsGetter), tsSetter);
+    assert.equal(getKindLabel(tsGetter), "get");
+    assert.equal(getKindLabel(tsSetter), "set");
+  });
+
+  it("folds a Python property setter the same way", () => {
+    const methods = [pythonProperty, pythonSetter];
+    assert.deepEqual(foldAccessors(methods), [pythonProperty]);
+    assert.equal(findSetter(methods, pythonProperty), pythonSetter);
+    assert.equal(getKindLabel(pythonSetter), "setter");
+  });
+
+  it("keeps a setter without a getter", () => {
+    assert.deepEqual(foldAccessors([tsSetter]), [tsSetter]);
+    assert.equal(
+      findSetter([tsSetter, method("load")], method("load")),
+      undefined
+    );
+  });
+});
+
+describe("areKindsCompatible and getKindMismatch", () => {
+  it("pairs a property with a getter method that takes no arguments", () => {
+    assert.ok(areKindsCompatible(method("getUser"), pythonProperty));
+    assert.ok(
+      !areKindsCompatible(
+        method("getUser", { parameters: parameters(["index", "number"]) }),
+        pythonProperty
+      )
+    );
+    assert.ok(!areKindsCompatible(method("subscribe"), pythonProperty));
+  });
+
+  it("names both shapes when they differ", () => {
+    assert.deepEqual(
+      getKindMismatch(method("load", { isStatic: true }), method("load")),
+      { ts: "static", python: "method" }
+    );
+    assert.equal(getKindMismatch(tsGetter, pythonProperty), undefined);
+  });
+});
+
+describe("isAsyncMethod and hasAsyncMismatch", () => {
+  const promise = method("getUser", { returns: "Promise<User>" });
+
+  it("counts a TS method returning a Promise as async", () => {
+    assert.ok(isAsyncMethod(promise, "ts"));
+    assert.ok(
+      isAsyncMethod(method("load", { returns: "Promise <void>" }), "ts")
+    );
+    assert.ok(isAsyncMethod(method("load", { isAsync: true }), "ts"));
+    assert.ok(!isAsyncMethod(method("load", { returns: "PromiseLike" }), "ts"));
+    assert.ok(!isAsyncMethod(method("load", { returns: "User" }), "ts"));
+  });
+
+  it("only takes Python methods declared async as async", () => {
+    assert.ok(isAsyncMethod(method("get_user", { isAsync: true }), "python"));
+    assert.ok(!isAsyncMethod({ ...promise, name: "get_user" }, "python"));
+  });
+
+  it("flags a pair that's async in only one SDK", () => {
+    const sync = method("get_user");
+    const coroutine = method("get_user", { isAsync: true });
+    assert.ok(hasAsyncMismatch(promise, sync));
+    assert.ok(!hasAsyncMismatch(promise, coroutine));
+    assert.ok(hasAsyncMismatch(method("getUser"), coroutine));
+    // A Python return annotation doesn't make it async
+    assert.ok(hasAsyncMismatch(promise, { ...promise, name: "get_user" }));
+  });
+});
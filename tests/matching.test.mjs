@@ -0,0 +1,264 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createMatcher,
+  normalizeName,
+  pairByName,
+  stripOptionalPrefix,
+  tokenizeName,
+} from "../src/lib/matching.ts";
+import { cls, method, NO_ALIASES, pythonFile, tsFile } from "./helpers.mjs";
+
+// Pairs of names, "" for a missing side, sorted for stable comparison
+const names = (pairs) =>
+  pairs.map(({ ts, python }) => `${ts || ""}|${python || ""}`).sort();
+
+const pairNames = (tsNames, pythonNames, aliases = [], isPreferred) =>
+  names(
+    pairByName(
+      tsNames,
+      pythonNames,
+      (name) => name.replace(/#.*$/, ""),
+      aliases.map(([ts, python]) => ({
+        ts: (name) => name === ts,
+        python: (name) => name === python,
+      })),
+      isPreferred
+    )
+  );
+
+describe("name normalization", () => {
+  it("splits camelCase, PascalCase and snake_case into the same words", () => {
+    assert.deepEqual(tokenizeName("getUserPDA"), ["get", "user", "pda"]);
+    assert.deepEqual(tokenizeName("getUserPda"), ["get", "user", "pda"]);
+    assert.deepEqual(tokenizeName("get_user_pda"), ["get", "user", "pda"]);
+    assert.deepEqual(tokenizeName("__private_thing"), ["private", "thing"]);
+  });
+
+  it("normalizes to the joined words", () => {
+    assert.equal(normalizeName("fetchAccounts"), "fetchaccounts");
+    assert.equal(normalizeName("fetch_accounts"), "fetchaccounts");
+  });
+
+  it("strips a leading get or is, but never the whole name", () => {
+    assert.equal(stripOptionalPrefix("getIsSubscribed"), "issubscribed");
+    assert.equal(stripOptionalPrefix("is_subscribed"), "subscribed");
+    assert.equal(stripOptionalPrefix("get"), undefined);
+    assert.equal(stripOptionalPrefix("subscribe"), undefined);
+  });
+});
+
+describe("pairByName", () => {
+  it("pairs exact names after normalization", () => {
+    assert.deepEqual(
+      pairNames(
+        ["fetchAccounts", "subscribe"],
+        ["subscribe", "fetch_accounts"]
+      ),
+      ["fetchAccounts|fetch_accounts", "subscribe|subscribe"]
+    );
+  });
+
+  it("pairs aliases before names, even over an exact namesake", () => {
+    assert.deepEqual(
+      pairNames(
+        ["initializeUserAccount", "initializeUser"],
+        ["initialize_user"],
+        [["initializeUserAccount", "initialize_user"]]
+      ),
+      ["initializeUserAccount|initialize_user", "initializeUser|"]
+    );
+  });
+
+  it("ignores aliases whose names aren't both there", () => {
+    assert.deepEqual(
+      pairNames(["subscribe"], ["subscribe"], [["subscribe", "missing"]]),
+      ["subscribe|subscribe"]
+    );
+  });
+
+  it("pairs names differing by a get/is prefix when that's unambiguous", () => {
+    assert.deepEqual(
+      pairNames(["getOrder", "isSubscribed"], ["order", "subscribed"]),
+      ["getOrder|order", "isSubscribed|subscribed"]
+    );
+  });
+
+  it("prefers exact names over the prefix pass", () => {
+    assert.deepEqual(pairNames(["getOrder", "order"], ["order"]), [
+      "getOrder|",
+      "order|order",
+    ]);
+  });
+
+  it("leaves a prefix match alone when several Python names collide", () => {
+    assert.deepEqual(pairNames(["getOrder"], ["order#1", "is_order"]), [
+      "getOrder|",
+      "|is_order",
+      "|order#1",
+    ]);
+  });
+
+  it("leaves a prefix match alone when several TS names collide", () => {
+    assert.deepEqual(pairNames(["getOrder", "isOrder"], ["order"]), [
+      "getOrder|",
+      "isOrder|",
+      "|order",
+    ]);
+  });
+
+  it("lets isPreferred pick between exact namesakes", () => {
+    assert.deepEqual(
+      pairNames(["user"], ["user#a", "user#b"], [], (_, python) =>
+        python.endsWith("#b")
+      ),
+      ["user|user#b", "|user#a"]
+    );
+  });
+
+  it("lets a single preferred candidate settle a prefix collision", () => {
+    assert.deepEqual(
+      pairNames(["getOrder"], ["order#a", "is_order#b"], [], (_, python) =>
+        python.endsWith("#a")
+      ),
+      ["getOrder|order#a", "|is_order#b"]
+    );
+  });
+
+  it("keeps a prefix collision ambiguous when a TS rival is preferred too", () => {
+    assert.deepEqual(
+      pairNames(["getOrder", "isOrder"], ["order"], [], () => true),
+      ["getOrder|", "isOrder|", "|order"]
+    );
+  });
+
+  it("uses every item at most once", () => {
+    assert.deepEqual(pairNames(["user#1", "user#2"], ["user"]), [
+      "user#1|user",
+      "user#2|",
+    ]);
+  });
+});
+
+describe("createMatcher", () => {
+  const tsData = {
+    classes: [
+      cls("DriftClient", tsFile("driftClient.ts"), [
+        method("constructor", { kind: "constructor" }),
+        "getUser",
+        "initializeUserAccount",
+        "subscribe",
+      ]),
+      cls("User", tsFile("user.ts"), ["fetchAccounts"]),
+      cls("Config", tsFile("config.ts")),
+      cls("Config", tsFile("dlob/config.ts")),
+    ],
+  };
+  const pythonData = {
+    classes: [
+      cls("DriftClient", pythonFile("drift_client.py"), [
+        method("__init__", { access: "private" }),
+        "get_user",
+        "initialize_user",
+        "unsubscribe",
+      ]),
+      cls("DriftUser", pythonFile("drift_user.py"), ["fetch_accounts"]),
+      cls("Config", pythonFile("dlob/config.py")),
+      cls("Config", pythonFile("config.py")),
+    ],
+  };
+  const aliases = {
+    classes: [
+      {
+        ts: { name: "User", file: tsFile("user.ts") },
+        python: { name: "DriftUser" },
+      },
+    ],
+    methods: [
+      {
+        class: "DriftClient",
+        ts: "initializeUserAccount",
+        python: "initialize_user",
+      },
+    ],
+    functions: [],
+  };
+  const matcher = createMatcher(tsData, pythonData, aliases);
+
+  it("pairs classes by alias and by name", () => {
+    assert.deepEqual(
+      matcher.classPairs.map(({ key, ts, python }) => [
+        key,
+        ts?.name,
+        python?.name,
+      ]),
+      [
+        ["User", "User", "DriftUser"],
+        ["DriftClient", "DriftClient", "DriftClient"],
+        ["Config", "Config", "Config"],
+        ["Config (protocol-v2/sdk/src/dlob/config.ts)", "Config", "Config"],
+      ]
+    );
+  });
+
+  it("pairs a duplicated class name with the one in the matching module", () => {
+    assert.equal(
+      matcher.getClassPair("Config").python.file,
+      pythonFile("config.py")
+    );
+    assert.equal(
+      matcher.getClassPair("Config (protocol-v2/sdk/src/dlob/config.ts)").python
+        .file,
+      pythonFile("dlob/config.py")
+    );
+  });
+
+  it("keys method pairs by class and normalized name", () => {
+    assert.deepEqual(
+      matcher
+        .getMethodPairs("DriftClient")
+        .map(({ key, ts, python }) => [key, ts?.name, python?.name]),
+      [
+        [
+          "DriftClient.initializeuseraccount",
+          "initializeUserAccount",
+          "initialize_user",
+        ],
+        ["DriftClient.getuser", "getUser", "get_user"],
+        ["DriftClient.subscribe", "subscribe", undefined],
+        ["DriftClient.unsubscribe", undefined, "unsubscribe"],
+      ]
+    );
+  });
+
+  it("finds a pair from either side's method name", () => {
+    assert.equal(
+      matcher.findMethodPair("DriftClient", "get_user", "python")?.ts?.name,
+      "getUser"
+    );
+    assert.equal(
+      matcher.findMethodPair("DriftClient", "getUser", "ts")?.python?.name,
+      "get_user"
+    );
+    assert.equal(
+      matcher.findMethodPair("DriftClient", "nope", "ts"),
+      undefined
+    );
+  });
+
+  it("uses the default aliases when none are given", () => {
+    const defaults = createMatcher(tsData, pythonData);
+    assert.equal(defaults.getClassPair("User")?.python?.name, "DriftUser");
+  });
+
+  it("leaves classes without a counterpart unpaired", () => {
+    const unpaired = createMatcher(tsData, pythonData, NO_ALIASES);
+    assert.deepEqual(
+      unpaired.classPairs
+        .filter(({ ts, python }) => !ts || !python)
+        .map(({ key }) => key)
+        .sort(),
+      ["DriftUser", "User"]
+    );
+  });
+});
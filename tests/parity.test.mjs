@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createMatcher } from "../src/lib/matching.ts";
+import {
+  formatParity,
+  getClassParity,
+  getMethodPairsParity,
+  getOverallParity,
+} from "../src/lib/parity.ts";
+import { cls, method, NO_ALIASES, pythonFile, tsFile } from "./helpers.mjs";
+
+describe("getMethodPairsParity", () => {
+  const pairs = [
+    { key: "A.a", ts: method("a", { endLine: 100 }), python: method("a") },
+    { key: "A.b", ts: method("b", { endLine: 10 }) },
+    { key: "A.c", ts: method("c", { endLine: 10 }) },
+    // Python-only methods don't count
+    { key: "A.d", python: method("d", { endLine: 50 }) },
+  ];
+
+  it("counts ported TS methods", () => {
+    assert.deepEqual(getMethodPairsParity(pairs), {
+      total: 3,
+      ported: 1,
+      ratio: 1 / 3,
+    });
+  });
+
+  it("weights TS methods by their line count", () => {
+    assert.deepEqual(getMethodPairsParity(pairs, "lines"), {
+      total: 120,
+      ported: 100,
+      ratio: 100 / 120,
+    });
+  });
+
+  it("is complete when there's nothing to port", () => {
+    assert.deepEqual(
+      getMethodPairsParity([{ key: "A.d", python: method("d") }]),
+      {
+        total: 0,
+        ported: 0,
+        ratio: 1,
+      }
+    );
+  });
+
+  it("leaves TS methods inherited from a base class to the base", () => {
+    const parity = getMethodPairsParity([
+      {
+        key: "B.a",
+        ts: method("a"),
+        python: method("a"),
+        inherited: { sdkName: "ts", owner: cls("A", "a.ts", []) },
+      },
+      { key: "B.b", ts: method("b") },
+    ]);
+    assert.deepEqual(parity, { total: 1, ported: 0, ratio: 0 });
+  });
+
+  it("counts a TS method whose Python side is inherited as ported", () => {
+    const parity = getMethodPairsParity([
+      {
+        key: "B.a",
+        ts: method("a"),
+        python: method("a"),
+        inherited: { sdkName: "python", owner: cls("A", "a.py", []) },
+      },
+    ]);
+    assert.deepEqual(parity, { total: 1, ported: 1, ratio: 1 });
+  });
+});
+
+describe("class and overall parity", () => {
+  const matcher = createMatcher(
+    {
+      classes: [
+        cls("DriftClient", tsFile("driftClient.ts"), [
+          method("subscribe", { endLine: 30 }),
+          method("getUser", { endLine: 10 }),
+        ]),
+        cls("BulkAccountLoader", tsFile("bulkAccountLoader.ts"), [
+          method("load", { endLine: 60 }),
+        ]),
+      ],
+    },
+    {
+      classes: [
+        cls("DriftClient", pythonFile("drift_client.py"), [
+          method("subscribe"),
+        ]),
+      ],
+    },
+    NO_ALIASES
+  );
+
+  it("computes a class's parity from its method pairs", () => {
+    assert.deepEqual(getClassParity(matcher, "DriftClient"), {
+      total: 2,
+      ported: 1,
+      ratio: 0.5,
+    });
+    assert.equal(getClassParity(matcher, "DriftClient", "lines").ratio, 0.75);
+  });
+
+  it("counts classes missing from driftpy as unported", () => {
+    assert.deepEqual(getOverallParity(matcher), {
+      total: 3,
+      ported: 1,
+      ratio: 1 / 3,
+    });
+    assert.equal(getOverallParity(matcher, "lines").ratio, 30 / 100);
+  });
+
+  it("formats a ratio as a percentage", () => {
+    assert.equal(formatParity(getOverallParity(matcher)), "33.3%");
+  });
+});
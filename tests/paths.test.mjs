@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  getDirectoryPath,
+  getMappedPath,
+  getModuleMismatch,
+  getModulePath,
+  toSnakeCase,
+} from "../src/lib/paths.ts";
+import { pythonFile, tsFile } from "./helpers.mjs";
+
+describe("toSnakeCase", () => {
+  it("splits camelCase, acronyms and dashes", () => {
+    assert.equal(toSnakeCase("spotPosition"), "spot_position");
+    assert.equal(toSnakeCase("DLOBNode"), "dlob_node");
+    assert.equal(toSnakeCase("indicative-quotes"), "indicative_quotes");
+    assert.equal(toSnakeCase("already_snake"), "already_snake");
+  });
+});
+
+describe("getMappedPath", () => {
+  it("snake_cases paths no rule matches", () => {
+    assert.equal(
+      getMappedPath(tsFile("math/spotPosition.ts"), "ts"),
+      "math/spot_position"
+    );
+    assert.equal(
+      getMappedPath(tsFile("dlob/orderBookLevels.ts"), "ts"),
+      "dlob/order_book_levels"
+    );
+  });
+
+  it("moves TS files by the default mapping rules", () => {
+    assert.equal(
+      getMappedPath(tsFile("accounts/grpcUserAccountSubscriber.ts"), "ts"),
+      "accounts/grpc/user_account_subscriber"
+    );
+    assert.equal(
+      getMappedPath(tsFile("accounts/webSocketDriftClientSubscriber.ts"), "ts"),
+      "accounts/ws/drift_client_subscriber"
+    );
+    assert.equal(
+      getMappedPath(tsFile("priorityFee/priorityFeeSubscriber.ts"), "ts"),
+      "priority_fees/priority_fee_subscriber"
+    );
+  });
+
+  it("leaves Python paths as they are, without the extension", () => {
+    assert.equal(
+      getMappedPath(
+        pythonFile("accounts/grpc/user_account_subscriber.py"),
+        "python"
+      ),
+      "accounts/grpc/user_account_subscriber"
+    );
+  });
+
+  it("substitutes each wildcard in order, `*` within one segment", () => {
+    const mappings = {
+      rules: [
+        { ts: "a/*/b*", python: "x/*/*" },
+        { ts: "a/**", python: "y/**" },
+      ],
+    };
+    assert.equal(
+      getMappedPath(tsFile("a/fooBar/bazQux.ts"), "ts", mappings),
+      "x/foo_bar/az_qux"
+    );
+    assert.equal(
+      getMappedPath(tsFile("a/fooBar/nested/bazQux.ts"), "ts", mappings),
+      "y/foo_bar/nested/baz_qux"
+    );
+  });
+
+  it("uses the first rule that matches and escapes regex characters", () => {
+    const mappings = {
+      rules: [
+        { ts: "a.b/*", python: "first/*" },
+        { ts: "a.b/**", python: "second/**" },
+      ],
+    };
+    assert.equal(getMappedPath(tsFile("a.b/c.ts"), "ts", mappings), "first/c");
+    assert.equal(getMappedPath(tsFile("aXb/c.ts"), "ts", mappings), "a_xb/c");
+  });
+});
+
+describe("getModulePath", () => {
+  it("lets package entry points stand for their directory", () => {
+    assert.equal(getModulePath(tsFile("dlob/index.ts"), "ts"), "dlob");
+    assert.equal(
+      getModulePath(pythonFile("dlob/__init__.py"), "python"),
+      "dlob"
+    );
+    assert.equal(
+      getModulePath(tsFile("dlob/DLOBNode.ts"), "ts"),
+      "dlob/dlob_node"
+    );
+  });
+});
+
+describe("getDirectoryPath", () => {
+  it("is the mapped path's directory, or empty at the SDK root", () => {
+    assert.equal(
+      getDirectoryPath(
+        tsFile("accounts/pollingUserAccountSubscriber.ts"),
+        "ts"
+      ),
+      "accounts/polling"
+    );
+    assert.equal(getDirectoryPath(tsFile("driftClient.ts"), "ts"), "");
+    assert.equal(getDirectoryPath(pythonFile("drift_client.py"), "python"), "");
+  });
+});
+
+describe("getModuleMismatch", () => {
+  it("is undefined when both sides map to the same directory", () => {
+    assert.equal(
+      getModuleMismatch(
+        { file: tsFile("accounts/webSocketUserAccountSubscriber.ts") },
+        { file: pythonFile("accounts/ws/user_account_subscriber.py") }
+      ),
+      undefined
+    );
+  });
+
+  it("names both directories when they differ", () => {
+    assert.deepEqual(
+      getModuleMismatch(
+        { file: tsFile("math/orders.ts") },
+        { file: pythonFile("accounts/orders.py") }
+      ),
+      { ts: "math", python: "accounts" }
+    );
+  });
+
+  it("takes custom mappings", () => {
+    assert.equal(
+      getModuleMismatch(
+        { file: tsFile("math/orders.ts") },
+        { file: pythonFile("accounts/orders.py") },
+        { rules: [{ ts: "math/*", python: "accounts/*" }] }
+      ),
+      undefined
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_VIEW_STATE,
+  getMethodAnchor,
+  parseMethodAnchor,
+  parseViewState,
+  serializeViewState,
+} from "../src/lib/permalink.ts";
+
+describe("method anchors", () => {
+  it("round-trips a plain class key", () => {
+    const anchor = {
+      sdkName: "python",
+      className: "DriftClient",
+      methodName: "get_user",
+    };
+    assert.deepEqual(parseMethodAnchor(`#${getMethodAnchor(anchor)}`), anchor);
+  });
+
+  it("round-trips a duplicate class key containing dashes", () => {
+    const anchor = {
+      sdkName: "ts",
+      className: "Config (protocol-v2/sdk/src/dlob/order-book.ts)",
+      methodName: "getOrder",
+    };
+    const hash = `#${encodeURIComponent(getMethodAnchor(anchor))}`;
+    assert.deepEqual(parseMethodAnchor(hash), anchor);
+  });
+
+  it("rejects hashes that aren't method anchors", () => {
+    assert.equal(parseMethodAnchor("#rust-User-fetch"), undefined);
+    assert.equal(parseMethodAnchor("#ts-User"), undefined);
+    assert.equal(parseMethodAnchor(""), undefined);
+  });
+});
+
+describe("view state", () => {
+  it("serializes the defaults as no query string", () => {
+    assert.equal(serializeViewState(DEFAULT_VIEW_STATE), "");
+    assert.deepEqual(parseViewState(""), DEFAULT_VIEW_STATE);
+  });
+
+  it("round-trips every setting", () => {
+    const state = {
+      searchTerm: "class:User async:true",
+      showCommon: false,
+      showTsOnly: true,
+      showPythonOnly: true,
+      hideEmptyClasses: false,
+      expandedClasses: ["DriftClient", "User"],
+      hideCommonMethods: ["User"],
+      sortByLength: ["ts-User"],
+      panels: ["longest", "directories"],
+      view: "functions",
+      parityWeighting: "lines",
+      access: "protected",
+    };
+    assert.deepEqual(parseViewState(serializeViewState(state)), state);
+  });
+
+  it("reads open panels from the older `boards` parameter", () => {
+    assert.deepEqual(parseViewState("?boards=longest,ts-ratio").panels, [
+      "longest",
+      "ts-ratio",
+    ]);
+    assert.deepEqual(
+      parseViewState("?panels=directories&boards=longest").panels,
+      ["directories"]
+    );
+  });
+
+  it("ignores unknown values", () => {
+    const state = parseViewState("?panels=longest,bogus&access=secret");
+    assert.deepEqual(state.panels, ["longest"]);
+    assert.equal(state.access, DEFAULT_VIEW_STATE.access);
+  });
+});
@@ -0,0 +1,237 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  getClassQueryItems,
+  getMethodQueryItem,
+  getQueryCompletions,
+  parseQuery,
+  QuerySyntaxError,
+  tokenize,
+} from "../src/lib/query.ts";
+import { cls, method, pythonFile, tsFile } from "./helpers.mjs";
+
+const item = (className, members, extra = {}) => ({
+  classNames: [className],
+  files: [tsFile(`${className}.ts`)],
+  directory: "",
+  status: "common",
+  mismatches: [],
+  isAsync: members.some((member) => member.isAsync),
+  members,
+  ...extra,
+});
+
+const items = {
+  subscribe: item("User", [method("subscribe", { isAsync: true })]),
+  getUser: item("DriftClient", [method("getUser"), method("get_user")]),
+  placeOrder: item("DriftClient", [method("placeOrder")], {
+    status: "ts-only",
+  }),
+  constructor: item("User", [method("constructor")]),
+};
+
+// Names of the items a query matches
+const search = (query) =>
+  Object.entries(items)
+    .filter(([, value]) => parseQuery(query)(value))
+    .map(([key]) => key);
+
+const assertSyntaxError = (query, message, position) =>
+  assert.throws(
+    () => parseQuery(query),
+    (error) =>
+      error instanceof QuerySyntaxError &&
+      error.message === message &&
+      error.position === position
+  );
+
+describe("tokenize", () => {
+  it("splits on whitespace and parentheses", () => {
+    assert.deepEqual(
+      tokenize("a (b OR c)").map(({ type, text }) => [type, text]),
+      [
+        ["term", "a"],
+        ["(", "("],
+        ["term", "b"],
+        ["or", "OR"],
+        ["term", "c"],
+        [")", ")"],
+      ]
+    );
+  });
+
+  it("groups quoted text into one term without the quotes", () => {
+    assert.deepEqual(tokenize('returns:"Promise<void>" "get user"'), [
+      { type: "term", text: "returns:Promise<void>", start: 0 },
+      { type: "term", text: "get user", start: 24 },
+    ]);
+  });
+
+  it("treats a dash before a term as NOT", () => {
+    assert.deepEqual(
+      tokenize("-status:common a - b").map(({ type }) => type),
+      ["not", "term", "term", "term", "term"]
+    );
+  });
+
+  it("only takes uppercase keywords, and quoted ones as terms", () => {
+    assert.deepEqual(
+      tokenize('and or "OR"').map(({ type }) => type),
+      ["term", "term", "term"]
+    );
+  });
+
+  it("takes names of object properties as terms", () => {
+    assert.deepEqual(
+      tokenize("constructor toString __proto__").map(({ type }) => type),
+      ["term", "term", "term"]
+    );
+  });
+
+  it("rejects an unclosed quote", () => {
+    assert.throws(
+      () => tokenize('class:"User'),
+      (error) => error instanceof QuerySyntaxError && error.position === 6
+    );
+  });
+});
+
+describe("parseQuery", () => {
+  it("matches everything when empty", () => {
+    assert.deepEqual(search("  "), Object.keys(items));
+  });
+
+  it("matches plain words against class and member names", () => {
+    assert.deepEqual(search("user"), ["subscribe", "getUser", "constructor"]);
+    assert.deepEqual(search("constructor"), ["constructor"]);
+    assert.deepEqual(search("toString"), []);
+  });
+
+  it("ANDs adjacent terms and binds OR looser than AND", () => {
+    assert.deepEqual(search("DriftClient placeOrder"), ["placeOrder"]);
+    assert.deepEqual(search("subscribe OR DriftClient AND placeOrder"), [
+      "subscribe",
+      "placeOrder",
+    ]);
+    assert.deepEqual(search("(subscribe OR DriftClient) AND user"), [
+      "subscribe",
+      "getUser",
+    ]);
+  });
+
+  it("binds NOT and - tighter than AND and OR", () => {
+    assert.deepEqual(search("NOT DriftClient OR placeOrder"), [
+      "subscribe",
+      "placeOrder",
+      "constructor",
+    ]);
+    assert.deepEqual(search("-(DriftClient OR subscribe)"), ["constructor"]);
+    assert.deepEqual(search("DriftClient -status:ts-only"), ["getUser"]);
+  });
+
+  it("matches fields", () => {
+    assert.deepEqual(search("method:getUser"), ["getUser"]);
+    assert.deepEqual(search("async:true"), ["subscribe"]);
+    assert.deepEqual(search("status:ts-only"), ["placeOrder"]);
+    assert.deepEqual(search("lines:>=10"), Object.keys(items));
+  });
+
+  it("rejects unknown fields, including object property names", () => {
+    assertSyntaxError("a nope:x", 'Unknown field "nope"', 2);
+    assertSyntaxError("constructor:x", 'Unknown field "constructor"', 0);
+    assertSyntaxError("toString:foo", 'Unknown field "toString"', 0);
+    assertSyntaxError("__proto__:x", 'Unknown field "__proto__"', 0);
+  });
+
+  it("rejects bad values and stray operators", () => {
+    assertSyntaxError("status:", "Missing value for status:", 0);
+    assertSyntaxError("async:yes", 'Expected true or false, got "yes"', 0);
+    assertSyntaxError(
+      "lines:many",
+      'Expected a line count like >50, got "many"',
+      0
+    );
+    assertSyntaxError("(a OR b", "Expected )", 7);
+    assertSyntaxError("a OR", "Expected a search term", 4);
+    assertSyntaxError("a )", "Unexpected )", 2);
+  });
+});
+
+describe("getMethodQueryItem", () => {
+  const user = {
+    key: "User",
+    ts: cls("User", tsFile("user.ts"), ["getHealth"]),
+    python: cls("DriftUser", pythonFile("drift_user.py"), ["get_health"]),
+  };
+  const admin = {
+    key: "Admin",
+    python: cls("Admin", pythonFile("admin.py"), ["initialize"]),
+  };
+  const getHealth = {
+    key: "getHealth",
+    ts: user.ts.methods[0],
+    python: user.python.methods[0],
+  };
+
+  it("matches either side's class name", () => {
+    const item = getMethodQueryItem(user, getHealth);
+    assert.deepEqual(item.classNames, ["User", "DriftUser"]);
+    assert.ok(parseQuery("class:DriftUser")(item));
+    assert.ok(parseQuery("driftuser")(item));
+    assert.ok(parseQuery("class:User")(item));
+  });
+
+  it("matches a class only one SDK has by its name", () => {
+    const [item] = getClassQueryItems(admin, [
+      { key: "initialize", python: admin.python.methods[0] },
+    ]);
+    assert.equal(item.status, "python-only");
+    assert.ok(parseQuery("Admin")(item));
+    assert.ok(parseQuery("class:admin")(item));
+  });
+
+  it("flags pairs that are async in only one SDK", () => {
+    const pair = (ts, python) =>
+      getMethodQueryItem(user, { key: "getHealth", ts, python });
+    const promise = method("getHealth", { returns: "Promise<number>" });
+    const coroutine = method("get_health", { isAsync: true });
+
+    const tsOnly = pair(promise, user.python.methods[0]);
+    assert.deepEqual(tsOnly.mismatches, ["async"]);
+    assert.ok(parseQuery("mismatch:async")(tsOnly));
+    assert.ok(parseQuery("async:true")(tsOnly));
+
+    const both = pair(promise, coroutine);
+    assert.deepEqual(both.mismatches, []);
+    assert.ok(!parseQuery("mismatch:async")(both));
+    assert.ok(
+      !parseQuery("mismatch:async")(getMethodQueryItem(user, getHealth))
+    );
+  });
+
+  it("matches classes without methods on their name", () => {
+    const [item] = getClassQueryItems(user, []);
+    assert.deepEqual(item.members, []);
+    assert.ok(parseQuery("DriftUser")(item));
+    assert.ok(!parseQuery("getHealth")(item));
+  });
+});
+
+describe("getQueryCompletions", () => {
+  it("completes field names and their values", () => {
+    assert.deepEqual(getQueryCompletions("a sta", 5), {
+      from: 2,
+      to: 5,
+      options: ["status:", "static:"],
+    });
+    assert.deepEqual(getQueryCompletions("-async:", 7)?.options, [
+      "async:true",
+      "async:false",
+    ]);
+  });
+
+  it("offers nothing for fields it doesn't know", () => {
+    assert.equal(getQueryCompletions("constructor:", 12), undefined);
+    assert.equal(getQueryCompletions("nope:", 5), undefined);
+  });
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseSDKData, SDKDataError } from "../src/lib/schema.ts";
+import { cls, fn, method, tsFile } from "./helpers.mjs";
+
+const dump = (classes, functions = []) => ({ classes, functions });
+
+// The lines of the error listing the problems, without the source line
+const issues = (data) => {
+  try {
+    parseSDKData(data, "typescript_sdk.json");
+  } catch (error) {
+    assert.ok(error instanceof SDKDataError);
+    assert.equal(error.name, "SDKDataError");
+    const [source, ...lines] = error.message.split("\n");
+    assert.equal(
+      source,
+      "typescript_sdk.json does not match the SDK dump schema:"
+    );
+    return lines.map((line) => line.trim());
+  }
+  assert.fail("expected an SDKDataError");
+};
+
+describe("parseSDKData", () => {
+  it("accepts a well-formed dump", () => {
+    const data = dump(
+      [cls("User", tsFile("user.ts"), ["subscribe"])],
+      [fn("sum", tsFile("math/utils.ts"))]
+    );
+    assert.deepEqual(parseSDKData(data, "typescript_sdk.json"), data);
+  });
+
+  it("names the path of each bad field", () => {
+    const data = dump([
+      cls("User", tsFile("user.ts"), [
+        "subscribe",
+        method("fetch", { startLine: "12" }),
+      ]),
+    ]);
+    assert.deepEqual(issues(data), [
+      "classes[0].methods[1].startLine: Expected number, received string",
+    ]);
+  });
+
+  it("rejects an endLine before the startLine", () => {
+    const data = dump(
+      [],
+      [fn("sum", tsFile("math/utils.ts"), { startLine: 20, endLine: 3 })]
+    );
+    assert.deepEqual(issues(data), [
+      "functions[0].endLine: endLine is before startLine",
+    ]);
+  });
+
+  it("rejects unknown method kinds and missing fields", () => {
+    const { access, ...withoutAccess } = method("fetch");
+    const data = dump([
+      cls("User", tsFile("user.ts"), [
+        method("subscribe", { kind: "macro" }),
+        withoutAccess,
+      ]),
+    ]);
+    const [kind, missing] = issues(data);
+    assert.match(kind, /^classes\[0\]\.methods\[0\]\.kind: Invalid enum value/);
+    assert.equal(missing, "classes[0].methods[1].access: Required");
+  });
+
+  it("lists at most 20 problems", () => {
+    const data = dump(
+      Array.from({ length: 25 }, (_, index) =>
+        cls(`Class${index}`, tsFile("a.ts"), [], { startLine: 0 })
+      )
+    );
+    const lines = issues(data);
+    assert.equal(lines.length, 21);
+    assert.equal(
+      lines[0],
+      "classes[0].startLine: Number must be greater than 0"
+    );
+    assert.equal(lines[20], "...and 5 more");
+  });
+
+  it("checks the meta block", () => {
+    const data = {
+      ...dump([]),
+      meta: {
+        repo: "protocol-v2",
+        commit: null,
+        generatedAt: "2024-01-01T00:00:00.000Z",
+        tool: "extract-ts-sdk",
+        toolVersion: "typescript 5.6.3",
+      },
+    };
+    const [repo, ...rest] = issues(data);
+    assert.match(repo, /^meta\.repo: /);
+    assert.deepEqual(rest, []);
+  });
+});
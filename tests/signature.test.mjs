@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  diffSignatures,
+  getSignatureParameters,
+  hasSignatureMismatch,
+} from "../src/lib/signature.ts";
+import { method, parameters } from "./helpers.mjs";
+
+// A method with parameters from [name, type] pairs
+const signature = (items, returns, extra = {}) =>
+  method("fetch", { parameters: parameters(...items), returns, ...extra });
+
+describe("getSignatureParameters", () => {
+  it("drops Python's self and cls", () => {
+    const python = signature([["self"], ["market_index", "int"]], "None");
+    assert.deepEqual(getSignatureParameters(python, "python"), [
+      { name: "market_index", type: "int" },
+    ]);
+  });
+
+  it("expands TS destructured options into their fields", () => {
+    const ts = signature([["{ marketIndex, slot = 0 }", "Options"]], "void");
+    assert.deepEqual(
+      getSignatureParameters(ts, "ts").map(({ name }) => name),
+      ["marketIndex", "slot"]
+    );
+  });
+});
+
+describe("diffSignatures", () => {
+  it("finds nothing between a method and its faithful port", () => {
+    const diff = diffSignatures(
+      signature([["marketIndex", "number"]], "Promise<PublicKey>"),
+      signature([["self"], ["market_index", "int"]], "Pubkey", {
+        isAsync: true,
+      })
+    );
+    assert.equal(hasSignatureMismatch(diff), false);
+  });
+
+  it("reports parameters the port dropped", () => {
+    const diff = diffSignatures(
+      signature(
+        [
+          ["marketIndex", "number"],
+          ["txParams", "TxParams"],
+        ],
+        "void"
+      ),
+      signature([["self"], ["market_index", "int"]], "None")
+    );
+    assert.deepEqual(diff.missingParameters, [
+      { name: "txParams", tsType: "TxParams" },
+    ]);
+    assert.deepEqual(diff.extraParameters, []);
+  });
+
+  it("reports parameters only the port takes", () => {
+    const diff = diffSignatures(
+      signature([], "void"),
+      signature([["self"], ["sub_account_id", "int"]], "None")
+    );
+    assert.deepEqual(diff.extraParameters, [
+      { name: "sub_account_id", pythonType: "int" },
+    ]);
+  });
+
+  it("reports a renamed parameter as one missing and one extra", () => {
+    const diff = diffSignatures(
+      signature([["marketIndex", "number"]], "void"),
+      signature([["self"], ["index", "int"]], "None")
+    );
+    assert.deepEqual(
+      diff.missingParameters.map(({ name }) => name),
+      ["marketIndex"]
+    );
+    assert.deepEqual(
+      diff.extraParameters.map(({ name }) => name),
+      ["index"]
+    );
+  });
+
+  it("ignores leading underscores and case in parameter names", () => {
+    const diff = diffSignatures(
+      signature([["_slot", "number"]], "void"),
+      signature([["self"], ["slot", "int"]], "None")
+    );
+    assert.equal(hasSignatureMismatch(diff), false);
+  });
+
+  it("reports parameter types that differ after mapping", () => {
+    const diff = diffSignatures(
+      signature([["authority", "PublicKey"]], "void"),
+      signature([["self"], ["authority", "str"]], "None")
+    );
+    assert.deepEqual(diff.typeMismatches, [
+      { name: "authority", tsType: "PublicKey", pythonType: "str" },
+    ]);
+  });
+
+  it("reports return types that differ after mapping", () => {
+    const diff = diffSignatures(
+      signature([], "Promise<string>"),
+      signature([["self"]], "int")
+    );
+    assert.deepEqual(diff.returnMismatch, {
+      tsType: "Promise<string>",
+      pythonType: "int",
+    });
+  });
+
+  it("matches classes driftpy ported under another name", () => {
+    // DriftClient.getUser in both dumps
+    const diff = diffSignatures(
+      signature(
+        [
+          ["subAccountId", "number"],
+          ["authority", "PublicKey"],
+        ],
+        "User",
+        { name: "getUser" }
+      ),
+      signature(
+        [
+          ["self", "Any"],
+          ["sub_account_id", "int | None"],
+        ],
+        "DriftUser",
+        { name: "get_user" }
+      )
+    );
+    assert.equal(diff.returnMismatch, undefined);
+    assert.deepEqual(diff.typeMismatches, []);
+  });
+
+  it("doesn't count Optional alone as a return type mismatch", () => {
+    const diff = diffSignatures(
+      signature([], "PerpPosition"),
+      signature([["self"]], "Optional[PerpPosition]")
+    );
+    assert.equal(diff.returnMismatch, undefined);
+    assert.equal(
+      diffSignatures(
+        signature([], "PerpPosition | undefined"),
+        signature([["self"]], "PerpPosition")
+      ).returnMismatch,
+      undefined
+    );
+  });
+});
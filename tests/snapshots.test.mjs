@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffSnapshots, summarizeSnapshot } from "../src/lib/snapshots.ts";
+import { cls, method, pythonFile, tsFile } from "./helpers.mjs";
+
+const snapshot = (date, tsClasses, pythonClasses) => ({
+  date,
+  tsData: { classes: tsClasses, functions: [] },
+  pythonData: { classes: pythonClasses, functions: [] },
+});
+
+const before = snapshot(
+  "2024-01-01",
+  [
+    cls("DriftClient", tsFile("driftClient.ts"), [
+      method("constructor", { kind: "constructor" }),
+      "subscribe",
+      "getUser",
+    ]),
+    cls("BulkAccountLoader", tsFile("bulkAccountLoader.ts"), ["load"]),
+  ],
+  [cls("DriftClient", pythonFile("drift_client.py"), ["subscribe"])]
+);
+
+const after = snapshot(
+  "2024-02-01",
+  [
+    cls("DriftClient", tsFile("driftClient.ts"), [
+      "subscribe",
+      "getUser",
+      "placeOrder",
+    ]),
+  ],
+  [cls("DriftClient", pythonFile("drift_client.py"), ["subscribe", "get_user"])]
+);
+
+describe("diffSnapshots", () => {
+  it("lists methods added and removed on each side", () => {
+    assert.deepEqual(diffSnapshots(before, after), {
+      from: "2024-01-01",
+      to: "2024-02-01",
+      ts: {
+        added: ["DriftClient.placeOrder"],
+        // Constructors aren't listed
+        removed: ["BulkAccountLoader.load"],
+      },
+      python: { added: ["DriftClient.get_user"], removed: [] },
+    });
+  });
+
+  it("finds nothing between identical snapshots", () => {
+    const changes = diffSnapshots(before, { ...before, date: "2024-01-02" });
+    assert.deepEqual(changes.ts, { added: [], removed: [] });
+    assert.deepEqual(changes.python, { added: [], removed: [] });
+  });
+});
+
+describe("summarizeSnapshot", () => {
+  it("computes overall and per-class parity", () => {
+    const summary = summarizeSnapshot(after);
+    assert.equal(summary.date, "2024-02-01");
+    assert.deepEqual(summary.parity, { total: 3, ported: 2, ratio: 2 / 3 });
+    assert.equal(summary.commonClasses, 1);
+    assert.deepEqual(Array.from(summary.classParity.keys()), ["DriftClient"]);
+  });
+
+  it("only keeps parity for classes TS has", () => {
+    const summary = summarizeSnapshot(before);
+    assert.deepEqual(Array.from(summary.classParity.keys()).sort(), [
+      "BulkAccountLoader",
+      "DriftClient",
+    ]);
+    assert.equal(summary.classParity.get("BulkAccountLoader").ratio, 0);
+  });
+
+  it("weights by lines when asked to", () => {
+    const weighted = snapshot(
+      "2024-03-01",
+      [
+        cls("DriftClient", tsFile("driftClient.ts"), [
+          method("subscribe", { endLine: 30 }),
+          method("getUser", { endLine: 10 }),
+        ]),
+      ],
+      [cls("DriftClient", pythonFile("drift_client.py"), ["subscribe"])]
+    );
+    assert.equal(summarizeSnapshot(weighted, "lines").parity.ratio, 0.75);
+  });
+});
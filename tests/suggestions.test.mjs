@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getNameSimilarity, suggestMatches } from "../src/lib/suggestions.ts";
+import { method, parameters } from "./helpers.mjs";
+
+// A method taking parameters of these names, `lines` long
+const candidate = (name, names = [], lines = 10) =>
+  method(name, { parameters: parameters(...names), endLine: lines });
+
+describe("getNameSimilarity", () => {
+  it("is 1 for the same words in either case style", () => {
+    assert.equal(getNameSimilarity("getUserAccount", "get_user_account"), 1);
+  });
+
+  it("ignores a get/is prefix", () => {
+    assert.equal(getNameSimilarity("getOrder", "order"), 1);
+  });
+
+  it("counts whole-word edits against the longer name", () => {
+    assert.equal(
+      getNameSimilarity("getUserAccountAndSlot", "get_user_account"),
+      1 - 2 / 4
+    );
+    assert.equal(
+      getNameSimilarity("placePerpOrder", "place_spot_order"),
+      1 - 1 / 3
+    );
+  });
+
+  it("is 0 for names sharing no words", () => {
+    assert.equal(getNameSimilarity("subscribe", "fetch"), 0);
+    assert.equal(getNameSimilarity("get", "is"), 0);
+  });
+});
+
+describe("suggestMatches", () => {
+  const ts = candidate("placePerpOrder", ["orderParams", "txParams"], 20);
+
+  it("ranks the closest name, parameters and length first", () => {
+    const suggestions = suggestMatches(ts, "ts", [
+      candidate("place_orders", ["self", "order_params"], 40),
+      candidate("place_perp_orders", ["self", "order_params", "tx_params"], 20),
+    ]);
+    assert.deepEqual(
+      suggestions.map(({ method }) => method.name),
+      ["place_perp_orders", "place_orders"]
+    );
+  });
+
+  it("weights name, parameter and length scores", () => {
+    const [suggestion] = suggestMatches(ts, "ts", [
+      candidate("place_perp_order", ["self", "order_params"], 10),
+    ]);
+    assert.equal(suggestion.nameScore, 1);
+    assert.equal(suggestion.parameterScore, 1 / 2);
+    assert.equal(suggestion.lengthScore, 10 / 20);
+    assert.equal(suggestion.score, 0.6 + 0.25 / 2 + 0.15 / 2);
+  });
+
+  it("drops candidates sharing no name words, however alike otherwise", () => {
+    assert.deepEqual(
+      suggestMatches(ts, "ts", [
+        candidate("cancel_all", ["self", "order_params", "tx_params"], 20),
+      ]),
+      []
+    );
+  });
+
+  it("drops candidates scoring below the threshold", () => {
+    // One word of four in common, nothing else: 0.6 * 0.25 + 0.15 * 0.1
+    assert.deepEqual(
+      suggestMatches(
+        candidate("getPerpMarketAccount", ["marketIndex"], 100),
+        "ts",
+        [candidate("fetch_spot_vault_account", ["self", "vault"], 10)]
+      ),
+      []
+    );
+  });
+
+  it("returns at most `limit` suggestions", () => {
+    const candidates = ["a", "b", "c", "d"].map((suffix) =>
+      candidate(`place_perp_order_${suffix}`, ["self", "order_params"], 20)
+    );
+    assert.equal(suggestMatches(ts, "ts", candidates).length, 3);
+    assert.equal(suggestMatches(ts, "ts", candidates, 1).length, 1);
+  });
+
+  it("ignores Python's self when comparing parameters from that side", () => {
+    const python = candidate("place_perp_order", ["self", "order_params"], 20);
+    const [suggestion] = suggestMatches(python, "python", [
+      candidate("placePerpOrder", ["orderParams"], 20),
+    ]);
+    assert.equal(suggestion.parameterScore, 1);
+  });
+});
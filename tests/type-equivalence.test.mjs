@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  areTypesEquivalent,
+  createTypeTable,
+  formatType,
+  normalizeType,
+  parseType,
+} from "../src/lib/typeEquivalence.ts";
+
+const normalized = (text, language) =>
+  formatType(normalizeType(parseType(text, language)));
+
+describe("parseType", () => {
+  it("parses generics in both syntaxes", () => {
+    assert.deepEqual(parseType("Map<string, BN>", "ts"), {
+      kind: "named",
+      name: "Map",
+      args: [
+        { kind: "named", name: "string", args: [] },
+        { kind: "named", name: "BN", args: [] },
+      ],
+    });
+    assert.deepEqual(
+      parseType("Dict[str, int]", "python"),
+      parseType("Dict<str, int>", "ts")
+    );
+  });
+
+  it("parses unions and array suffixes", () => {
+    assert.equal(
+      formatType(parseType("PublicKey[] | undefined", "ts")),
+      "PublicKey[] | undefined"
+    );
+  });
+
+  it("keeps only the last segment of dotted names", () => {
+    assert.equal(
+      formatType(parseType("asyncio.Task[None]", "python")),
+      "Task<None>"
+    );
+  });
+
+  it("reads TS function and object types as opaque", () => {
+    assert.equal(
+      formatType(parseType("(slot: number) => void", "ts")),
+      "Callable"
+    );
+    assert.deepEqual(parseType("{ price: BN }", "ts"), { kind: "any" });
+  });
+
+  it("doesn't throw on malformed input", () => {
+    ["Promise<", "List[[", ")", "|", "Map<string,", "<>", ""].forEach(
+      (text) => {
+        assert.doesNotThrow(() => parseType(text, "ts"));
+        assert.doesNotThrow(() => parseType(text, "python"));
+      }
+    );
+    assert.deepEqual(parseType("", "ts"), { kind: "any" });
+  });
+});
+
+describe("normalizeType", () => {
+  it("unwraps Promise<T>", () => {
+    assert.equal(normalized("Promise<PublicKey>", "ts"), "publickey");
+  });
+
+  it("reads Optional[T] as a union with none", () => {
+    assert.equal(normalized("Optional[int]", "python"), "number | none");
+  });
+
+  it("flattens and de-duplicates unions", () => {
+    assert.equal(
+      normalized("Union[int, Union[float, None]]", "python"),
+      "number | none"
+    );
+  });
+
+  it("collapses sequences, including tuples, to arrays", () => {
+    assert.equal(normalized("Tuple[int, int]", "python"), "number[]");
+    assert.equal(normalized("Sequence[str]", "python"), "string[]");
+  });
+
+  it("collapses Map, Record and Dict to one map type", () => {
+    assert.equal(normalized("Record<string, BN>", "ts"), "map<string, number>");
+    assert.equal(normalized("Dict[str, int]", "python"), "map<string, number>");
+  });
+
+  it("takes equivalents from the table it's given", () => {
+    const table = createTypeTable({
+      wildcards: [],
+      nullish: [],
+      unwrap: [],
+      optional: [],
+      unions: [],
+      arrays: [],
+      maps: [],
+      callables: [],
+      equivalents: { Order: ["Order", "OrderRecord"] },
+    });
+    assert.equal(
+      formatType(normalizeType(parseType("OrderRecord", "python"), table)),
+      "order"
+    );
+  });
+});
+
+describe("areTypesEquivalent", () => {
+  it("maps spellings through the equivalence table", () => {
+    assert.ok(areTypesEquivalent("PublicKey", "Pubkey"));
+    assert.ok(areTypesEquivalent("BN", "int"));
+    assert.ok(areTypesEquivalent("User", "DriftUser"));
+    assert.ok(areTypesEquivalent("UserStats", "DriftUserStats"));
+  });
+
+  it("keeps distinct types apart", () => {
+    assert.ok(!areTypesEquivalent("PublicKey", "str"));
+    assert.ok(!areTypesEquivalent("Keypair", "Signer"));
+    // driftpy's account struct keeps its name; the TS client class is DriftUser
+    assert.ok(!areTypesEquivalent("User", "UserAccount"));
+  });
+
+  it("compares Promise<T> with an async method's T", () => {
+    assert.ok(areTypesEquivalent("Promise<string>", "str"));
+    assert.ok(!areTypesEquivalent("Promise<string>", "int"));
+  });
+
+  it("compares generic arguments", () => {
+    assert.ok(areTypesEquivalent("Map<string, BN>", "dict[str, int]"));
+    assert.ok(!areTypesEquivalent("Map<string, BN>", "dict[str, str]"));
+    assert.ok(areTypesEquivalent("number[]", "list[int]"));
+  });
+
+  it("treats bare containers as matching any arguments", () => {
+    assert.ok(areTypesEquivalent("Map<string, BN>", "dict"));
+  });
+
+  it("compares TS tuples loosely", () => {
+    assert.ok(areTypesEquivalent("[number, string]", "Tuple[int, str]"));
+  });
+
+  it("compares unions member by member", () => {
+    assert.ok(areTypesEquivalent("number[] | undefined", "list[int] | None"));
+    assert.ok(areTypesEquivalent("string | number", "Union[int, str]"));
+    assert.ok(!areTypesEquivalent("string | number", "str"));
+  });
+
+  it("ignores nullability only when asked to", () => {
+    assert.ok(!areTypesEquivalent("PerpPosition", "Optional[PerpPosition]"));
+    assert.ok(
+      areTypesEquivalent("PerpPosition", "Optional[PerpPosition]", {
+        ignoreOptional: true,
+      })
+    );
+  });
+
+  it("can't compare a missing type, so accepts it", () => {
+    assert.ok(areTypesEquivalent(undefined, "int"));
+    assert.ok(areTypesEquivalent("number", ""));
+  });
+});